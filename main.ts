@@ -6,15 +6,148 @@
 
 import {
   addIcon,
-  App,
+  ItemView,
   MarkdownFileInfo,
+  getLinkpath,
+  MarkdownView,
+  Menu,
   Notice,
   Plugin,
-  PluginSettingTab,
-  Setting,
+  setIcon,
+  TAbstractFile,
+  TFile,
   View,
   WorkspaceLeaf,
 } from "obsidian";
+import type { AllCanvasNodeData } from "obsidian/canvas";
+import {
+  CssClass,
+  Level,
+  LEVEL_ICONS,
+  LEVEL_NAMES,
+  revealsMore,
+} from "./src/constants";
+import {
+  CompiledDetector,
+  compileDetectors,
+  detectSensitive,
+} from "./src/detectors";
+import {
+  privateLinksExtension,
+  privateSectionsExtension,
+  sensitiveDataExtension,
+  structureExtension,
+  wordReplacementExtension,
+} from "./src/editor";
+import {
+  ConfigurationSuggestModal,
+  ConfirmModal,
+  DetectedItemsModal,
+  PassphraseModal,
+  PrivacyExplanationModal,
+  ProfileSuggestModal,
+} from "./src/modals";
+import { PrivacyGlassesApi } from "./src/api";
+import {
+  AUDIT_VIEW_TYPE,
+  AuditEntry,
+  findWarnings,
+  PrivacyAuditView,
+} from "./src/audit";
+import {
+  AttachmentInheritance,
+  findReferrers,
+  inheritPrivacy,
+  isAttachment,
+  ReferrerIndex,
+} from "./src/attachments";
+import {
+  dueIdleLevel,
+  isMoreRestrictive,
+  nextIdleStep,
+  SLEEP_GAP_SECONDS,
+} from "./src/idle";
+import {
+  ClipboardGuard,
+  EXPORT_PDF_COMMAND,
+  HIDEABLE_SELECTOR,
+  isDragHidden,
+  isSelectionHidden,
+  OffsetRange,
+  overlapsAny,
+} from "./src/guard";
+import { findLinks } from "./src/links";
+import {
+  ensurePrivateRule,
+  MarkStrategy,
+  metadataChanged,
+  setFrontmatterMarker,
+  setPathRule,
+  usesFrontmatter,
+} from "./src/marking";
+import { PrivacyIndex } from "./src/privacy";
+import {
+  STRUCTURE_BODY_CLASSES,
+  structureBodyClasses,
+} from "./src/structure";
+import {
+  activeSelectors,
+  customSelectorsCss,
+  customViewTypes,
+} from "./src/selectors";
+import { GRAPH_VIEW_TYPES } from "./src/names";
+import { around } from "./src/around";
+import {
+  hookLeafViewState,
+  LeafOverride,
+  LEAF_OVERRIDE_ICONS,
+  LEAF_OVERRIDE_NAMES,
+} from "./src/overrides";
+import { findScheduledProfile, PrivacyProfile } from "./src/profiles";
+import { StatusBar } from "./src/status-bar";
+import {
+  hashPassphrase,
+  LOCKOUT_SECONDS,
+  MAX_FAILED_ATTEMPTS,
+} from "./src/passphrase";
+import {
+  tagPrivateLinks,
+  tagReadingViewBlocks,
+  tagStructure,
+  wrapSensitiveMatches,
+  wrapWords,
+} from "./src/reading";
+import {
+  isTextRenderMode,
+  RenderMode,
+  renderModeClass,
+  RENDER_MODES,
+} from "./src/render";
+import {
+  evaluateRules,
+  matchingRules,
+  PrivacyDecision,
+  PrivacyRule,
+  RuleKind,
+} from "./src/rules";
+import { exportSettings, importSettings, parseSettings } from "./src/schema";
+import { findPrivateRanges } from "./src/sections";
+import {
+  PrivacyGlassesSettingTab,
+  PrivacyGlassesSettings,
+  SETTINGS_VERSION,
+} from "./src/settings";
+import {
+  CANVAS_VIEW_TYPE,
+  fileOfView,
+  PDF_VIEW_TYPE,
+  tagCanvasNodes,
+} from "./src/views";
+import {
+  createWindowState,
+  removeWindowState,
+  WindowState,
+} from "./src/windows";
 
 function isMarkdownFileInfoView(x: unknown): x is MarkdownFileInfo {
   const anyX = x as any;
@@ -31,7 +164,7 @@ function isHooked(view: View) {
 
 function hookViewStateChanged(
   view: View,
-  onBeforeStateChange: (view: View) => void,
+  onBeforeStateChange: (view: View, state: any) => void,
   onAfterStateChange: (view: View) => void
 ) {
   const anyView = view as any;
@@ -39,7 +172,7 @@ function hookViewStateChanged(
   const original = anyView.__proto__.setState;
 
   function wrapper() {
-    onBeforeStateChange(view);
+    onBeforeStateChange(view, arguments[0]);
     const r = original.apply(this, arguments);
     if (typeof r.then === "function") {
       r.then(() => {
@@ -57,49 +190,114 @@ function hookViewStateChanged(
 }
 
 /**
- * Constants
+ * Main
  */
 
-enum Level {
-  HideAll = "hide-all",
-  HidePrivate = "hide-private",
-  RevealAll = "reveal-all",
-  RevealHeadlines = "reveal-headlines"
-}
+// the status bar counts down this many seconds before each idle step
+const IDLE_COUNTDOWN_SECONDS = 10;
 
-enum CssClass {
-  BlurAll = "privacy-glasses-blur-all",
-  RevealOnHover = "privacy-glasses-reveal-on-hover",
-  RevealAll = "privacy-glasses-reveal-all",
-  RevealUnderCaret = "privacy-glasses-reveal-under-caret",
-  RevealHeadlines = "privacy-glasses-reveal-headlines",
-  Reveal = "privacy-glasses-reveal",
-  IsMdView = "is-md-view",
-  IsNonMdView = "is-non-md-view",
-  IsMdViewHeadlinesOnly = "is-md-view-headlines-only",
-  PrivacyGlassesReveal = "privacy-glasses-reveal"
-}
+const FOCUS_CHECK_DELAY_MS = 100;
 
-/**
- * Main
- */
+// the hold to reveal key only reveals after it was held this long on its
+// own, so shortcuts with a modifier as the key don't flash hidden content
+const HOLD_DELAY_MS = 300;
+
+const CONFIGURATION_FILE = "privacy-glasses.json";
 
 export default class PrivacyGlassesPlugin extends Plugin {
+  api = new PrivacyGlassesApi(this);
   settings: PrivacyGlassesSettings;
   statusBar: HTMLElement;
+  statusBarWidget: StatusBar;
+  idleCountdown: number | undefined;
   noticeMsg: Notice;
-  blurLevelStyleEl: HTMLElement;
-  privateDirsStyleEl: HTMLElement;
+  windows = new Map<Window, WindowState>();
+  privacyIndex = new PrivacyIndex((file) => this.evaluatePrivacy(file));
+  // private files, without folders
+  privatePaths = new Set<string>();
+  // notes linking to each file, only kept while attachments inherit privacy
+  referrers = new ReferrerIndex();
+  // names, paths and basenames of private files, as shown in the ui
+  privateNames = new Set<string>();
+  // changes whenever privatePaths does
+  privatePathsVersion = 0;
   lastEventTime: number | undefined;
+  // wall clock time of the last idle check, to notice sleep
+  lastTick: number | undefined;
+  replayingClipboardEvent = false;
   currentLevel: Level;
-  revealed: HTMLElement[] = [];
+  // views styled at least once, new views are styled on the next layout change
+  styledViews = new WeakSet<View>();
+  detectors: CompiledDetector[] = [];
+  leafOverrides = new WeakMap<WorkspaceLeaf, LeafOverride>();
+  overrideIndicators = new WeakMap<View, HTMLElement>();
+  lastScheduledProfileId: string | undefined;
+  // leaves revealed by peeking, with the timers hiding them again
+  peekedLeaves = new Map<WorkspaceLeaf, number>();
+  // restores the level after peeking at everything
+  peekTimer: number | undefined;
+  // the level from before the peek, and its window
+  peekRestore: { level: Level; win: Window } | undefined;
+  // the window where the hold to reveal key is held down
+  holdingWindow: Window | undefined;
+  // starts holding once the key was held long enough on its own
+  holdTimer: number | undefined;
+  lastWorkspace: string | undefined;
 
   async onload() {
     this.statusBar = this.addStatusBarItem();
+    this.statusBarWidget = new StatusBar(this.statusBar, (evt) =>
+      this.showLevelMenu(evt)
+    );
 
     await this.loadSettings();
 
-    this.addSettingTab(new privacyGlassesSettingTab(this.app, this));
+    // has to be in place before the layout is restored
+    this.register(
+      hookLeafViewState(
+        (leaf) => this.getLeafOverride(leaf),
+        (leaf, override) => this.leafOverrides.set(leaf, override)
+      )
+    );
+
+    this.addSettingTab(new PrivacyGlassesSettingTab(this.app, this));
+
+    this.registerView(
+      AUDIT_VIEW_TYPE,
+      (leaf) => new PrivacyAuditView(leaf, this)
+    );
+
+    this.updateDetectors();
+
+    this.registerEditorExtension([
+      privateSectionsExtension(() => this.settings.privateSectionMarker),
+      sensitiveDataExtension(() => this.detectors),
+      privateLinksExtension(
+        (link, sourcePath) => this.isPrivateLink(link, sourcePath),
+        (path) => this.privatePaths.has(path),
+        () => this.privatePathsVersion
+      ),
+      wordReplacementExtension((view) =>
+        this.getWordReplacementMode(view.dom.win)
+      ),
+      structureExtension(
+        () => this.settings.structure,
+        (link, sourcePath) => this.isPrivateLink(link, sourcePath),
+        () => this.privatePathsVersion
+      ),
+    ]);
+    this.registerMarkdownPostProcessor((el, ctx) => {
+      tagReadingViewBlocks(el, ctx, this.settings.privateSectionMarker);
+      tagPrivateLinks(
+        el,
+        ctx,
+        (link, sourcePath) => this.isPrivateLink(link, sourcePath),
+        (path) => this.privatePaths.has(path)
+      );
+      tagStructure(el, this.settings.structure);
+      wrapSensitiveMatches(el, this.detectors);
+      wrapWords(el, this.getWordReplacementMode(el.win));
+    });
 
     addIcon("eye", eyeIcon);
     addIcon("eye-closed", eyeClosedIcon);
@@ -107,28 +305,23 @@ export default class PrivacyGlassesPlugin extends Plugin {
     addIcon("eye-glasses", eyeGlasses);
 
     this.addRibbonIcon("eye-closed", "Hide all", () => {
-      this.currentLevel = Level.HideAll;
-      this.updateLeavesAndGlobalReveals();
+      this.setLevel(Level.HideAll);
     });
     this.addRibbonIcon("eye-slash", "Reveal non-private", () => {
-      this.currentLevel = Level.HidePrivate;
-      this.updateLeavesAndGlobalReveals();
+      this.setLevel(Level.HidePrivate);
     });
     this.addRibbonIcon("eye-glasses", "Reveal headlines only", () => {
-      this.currentLevel = Level.RevealHeadlines;
-      this.updateLeavesAndGlobalReveals();
+      this.setLevel(Level.RevealHeadlines);
     });
     this.addRibbonIcon("eye", "Reveal all", () => {
-      this.currentLevel = Level.RevealAll;
-      this.updateLeavesAndGlobalReveals();
+      this.setLevel(Level.RevealAll);
     });
 
     this.addCommand({
       id: "privacy-glasses-hide-all",
       name: "Privacy Glasses - hide all",
       callback: () => {
-        this.currentLevel = Level.HideAll;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.HideAll);
       },
     });
 
@@ -136,8 +329,7 @@ export default class PrivacyGlassesPlugin extends Plugin {
       id: "privacy-glasses-hide-private",
       name: "Privacy Glasses - hide files in folders marked as private",
       callback: () => {
-        this.currentLevel = Level.HidePrivate;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.HidePrivate);
       },
     });
 
@@ -145,8 +337,7 @@ export default class PrivacyGlassesPlugin extends Plugin {
       id: "privacy-glasses-reveal-headlines",
       name: "Privacy Glasses - reveal headlines only, keeping body content hidden",
       callback: () => {
-        this.currentLevel = Level.RevealHeadlines;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.RevealHeadlines);
       },
     });
 
@@ -154,8 +345,141 @@ export default class PrivacyGlassesPlugin extends Plugin {
       id: "privacy-glasses-reveal-all",
       name: "Privacy Glasses - do not hide anything",
       callback: () => {
-        this.currentLevel = Level.RevealAll;
-        this.updateLeavesAndGlobalReveals();
+        this.setLevel(Level.RevealAll);
+      },
+    });
+
+    [
+      LeafOverride.FollowGlobal,
+      LeafOverride.AlwaysHide,
+      LeafOverride.AlwaysReveal,
+    ].forEach((override) => {
+      this.addCommand({
+        id: "privacy-glasses-pane-" + override,
+        name: "Privacy Glasses - " + LEAF_OVERRIDE_NAMES[override].toLowerCase(),
+        checkCallback: (checking) => {
+          const leaf = this.app.workspace.getMostRecentLeaf();
+          if (!leaf) {
+            return false;
+          }
+          if (!checking) {
+            this.setLeafOverride(leaf, override);
+          }
+          return true;
+        },
+      });
+    });
+
+    this.addCommand({
+      id: "privacy-glasses-peek-note",
+      name: "Privacy Glasses - peek at this note",
+      checkCallback: (checking) => {
+        const leaf = this.app.workspace.getMostRecentLeaf();
+        if (!leaf) {
+          return false;
+        }
+        if (!checking) {
+          this.peekLeaf(leaf);
+        }
+        return true;
+      },
+    });
+
+    [true, false].forEach((makePrivate) => {
+      this.addCommand({
+        id: makePrivate
+          ? "privacy-glasses-make-private"
+          : "privacy-glasses-make-public",
+        name: `Privacy Glasses - make this note ${makePrivate ? "private" : "public"}`,
+        checkCallback: (checking) => {
+          const file = this.app.workspace.getActiveFile();
+          if (!file || this.getPrivacyDecision(file).isPrivate === makePrivate) {
+            return false;
+          }
+          if (!checking) {
+            this.setFilesPrivacy([file], makePrivate);
+          }
+          return true;
+        },
+      });
+    });
+
+    this.addCommand({
+      id: "privacy-glasses-peek-all",
+      name: "Privacy Glasses - peek at everything",
+      callback: () => {
+        this.peekAll();
+      },
+    });
+
+    this.addCommand({
+      id: "privacy-glasses-switch-profile",
+      name: "Privacy Glasses - switch profile",
+      callback: () => {
+        new ProfileSuggestModal(this.app, this.settings.profiles, (p) =>
+          this.activateProfile(p)
+        ).open();
+      },
+    });
+    this.settings.profiles.forEach((p) => this.addProfileCommand(p));
+
+    this.addCommand({
+      id: "privacy-glasses-export-settings",
+      name: "Privacy Glasses - export configuration",
+      callback: () => {
+        this.exportConfiguration();
+      },
+    });
+
+    this.addCommand({
+      id: "privacy-glasses-import-settings",
+      name: "Privacy Glasses - import configuration",
+      callback: () => {
+        new ConfigurationSuggestModal(this.app, (file) =>
+          this.importConfiguration(file)
+        ).open();
+      },
+    });
+
+    this.addCommand({
+      id: "privacy-glasses-open-audit",
+      name: "Privacy Glasses - open privacy audit",
+      callback: () => {
+        this.openAuditView();
+      },
+    });
+
+    this.addCommand({
+      id: "privacy-glasses-explain",
+      name: "Privacy Glasses - why is this note private?",
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) {
+          return false;
+        }
+        if (!checking) {
+          const referrers = findReferrers(this.app.metadataCache.resolvedLinks);
+          new PrivacyExplanationModal(
+            this.app,
+            this.auditFile(file, referrers.get(file.path) ?? [])
+          ).open();
+        }
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "privacy-glasses-show-detected",
+      name: "Privacy Glasses - show detected items in this note",
+      checkCallback: (checking) => {
+        const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+        if (!view) {
+          return false;
+        }
+        if (!checking) {
+          this.showDetectedItems(view);
+        }
+        return true;
       },
     });
 
@@ -165,24 +489,104 @@ export default class PrivacyGlassesPlugin extends Plugin {
       }, 1000)
     );
 
+    this.registerInterval(
+      window.setInterval(() => {
+        this.checkProfileSchedule();
+      }, 30 * 1000)
+    );
+
     this.app.workspace.onLayoutReady(() => {
       this.registerDomActivityEvents(this.app.workspace.rootSplit.win);
+      this.registerClipboardGuard(this.app.workspace.rootSplit.win);
+      this.guardPrint(this.app.workspace.rootSplit.win);
+      this.guardExportCommand();
       this.currentLevel = this.settings.blurOnStartup;
+      this.updateReferrers();
+      this.privacyIndex.rebuild(this.app.vault.getAllLoadedFiles());
       this.updateLeavesAndGlobalReveals();
-      this.updatePrivateDirsEl(this.app.workspace.rootSplit.win.document);
+      this.updatePrivateNames();
       this.ensureLeavesHooked();
+      this.lastWorkspace = this.getActiveWorkspaceName();
+      this.checkProfileSchedule();
+      // registered once the vault is loaded, it reports every file as
+      // created while loading
+      this.registerPrivacyIndexEvents();
     });
 
+    // canvases are saved whenever their nodes change
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        if (file instanceof TFile && file.extension === "canvas") {
+          this.updateLeavesOfPaths(new Set([file.path]));
+        }
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("layout-change", () => {
+        this.checkWorkspaceProfile();
+        this.ensureLeavesHooked();
+        this.app.workspace.iterateAllLeaves((leaf) => {
+          if (!this.styledViews.has(leaf.view)) {
+            this.updateLeafViewStyle(leaf);
+          }
+        });
+      })
+    );
+
     this.registerEvent(
       this.app.workspace.on("window-open", (win) => {
         this.registerDomActivityEvents(win.win);
+        this.registerClipboardGuard(win.win);
+        this.guardPrint(win.win);
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("window-close", (win) => {
+        const state = this.windows.get(win.win);
+        if (state) {
+          removeWindowState(state);
+          this.windows.delete(win.win);
+        }
       })
     );
 
     this.registerEvent(
       this.app.workspace.on("active-leaf-change", (e) => {
         this.ensureLeavesHooked();
-        this.updateLeafViewStyle(e.view);
+        if (e) {
+          this.updateLeafViewStyle(e);
+        }
+        this.updateStatusBar();
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file, source, leaf) => {
+        if (leaf && (source === "pane-more-options" || source === "tab-header")) {
+          this.addLeafOverrideMenuItems(menu, leaf);
+        }
+        if (file.path !== "/") {
+          this.addMarkMenuItems(menu, [file]);
+        }
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("files-menu", (menu, files) => {
+        this.addMarkMenuItems(
+          menu,
+          files.filter((f) => f.path !== "/")
+        );
+      })
+    );
+
+    this.registerEvent(
+      this.app.workspace.on("editor-menu", (menu, editor, info) => {
+        if (info.file) {
+          this.addMarkMenuItems(menu, [info.file]);
+        }
       })
     );
 
@@ -191,20 +595,55 @@ export default class PrivacyGlassesPlugin extends Plugin {
 
   // we hook into setState function of the view, because it is synchronously called
   // before the content switch. this is to prevent private content from being accidentally briefly revealed
-  onBeforeViewStateChange(l: WorkspaceLeaf) {
-    this.revealed.forEach((r) => {
-      r.removeClass(CssClass.Reveal);
-    });
+  // a peek reveals the note it was started on, opening another file in the
+  // pane ends it
+  onBeforeViewStateChange(l: WorkspaceLeaf, state: any) {
+    l.view.containerEl.removeClass(CssClass.Reveal);
+    const path = fileOfView(l.view)?.path;
+    if (this.peekedLeaves.has(l) && state?.file !== path) {
+      window.clearTimeout(this.peekedLeaves.get(l));
+      this.peekedLeaves.delete(l);
+    }
   }
 
   onAfterViewStateChange(l: WorkspaceLeaf) {
-    // some panels update using the same event, so it is important to update leaves after they are ready
-    setTimeout(() => {
-      this.updateLeavesStyle();
-    }, 200);
+    this.updateLeafViewStyle(l);
+    this.updateStatusBar();
     this.ensureLeavesHooked();
   }
 
+  registerPrivacyIndexEvents() {
+    this.registerEvent(
+      this.app.vault.on("create", (file) => this.onFileChanged(file))
+    );
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        const links = this.referrers.links.get(oldPath) ?? [];
+        this.onLinksChanged(oldPath, []);
+        this.onLinksChanged(file.path, links);
+        this.onFileChanged(file, oldPath);
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        this.onLinksChanged(file.path, []);
+        this.onPrivacyIndexChanged(this.privacyIndex.delete(file.path));
+      })
+    );
+    // tags and properties
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) => this.onFileChanged(file))
+    );
+    this.registerEvent(
+      this.app.metadataCache.on("resolve", (file) =>
+        this.onLinksChanged(
+          file.path,
+          Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {})
+        )
+      )
+    );
+  }
+
   ensureLeavesHooked() {
     this.app.workspace.iterateAllLeaves((e) => {
       if (isHooked(e.view)) {
@@ -213,8 +652,8 @@ export default class PrivacyGlassesPlugin extends Plugin {
 
       hookViewStateChanged(
         e.view,
-        () => {
-          this.onBeforeViewStateChange(e);
+        (_, state) => {
+          this.onBeforeViewStateChange(e, state);
         },
         () => {
           this.onAfterViewStateChange(e);
@@ -224,370 +663,1368 @@ export default class PrivacyGlassesPlugin extends Plugin {
   }
 
   registerDomActivityEvents(win: Window) {
-    this.registerDomEvent(win, "mousedown", (e) => {
-      this.lastEventTime = e.timeStamp;
-    });
+    // event time stamps are relative to their own window, so the main
+    // window's clock is used for all of them
+    const onActivity = () => {
+      this.lastEventTime = performance.now();
+    };
+    (["mousedown", "mousemove", "wheel", "touchstart"] as const).forEach(
+      (type) => this.registerDomEvent(win, type, onActivity, { passive: true })
+    );
+    // a click or scroll while the key is down is part of a shortcut as well
+    (["mousedown", "wheel"] as const).forEach((type) =>
+      this.registerDomEvent(win, type, () => this.cancelHold(), {
+        passive: true,
+      })
+    );
     this.registerDomEvent(win, "keydown", (e) => {
-      this.lastEventTime = e.timeStamp;
+      onActivity();
+      // the key only reveals while it is held on its own, not as part of a
+      // shortcut
+      if (e.key !== this.settings.holdToRevealKey) {
+        this.cancelHold();
+        this.setHolding(win, false);
+      } else if (!e.repeat) {
+        this.cancelHold();
+        this.holdTimer = window.setTimeout(() => {
+          this.holdTimer = undefined;
+          this.setHolding(win, true);
+        }, HOLD_DELAY_MS);
+      }
+    });
+    this.registerDomEvent(win, "keyup", (e) => {
+      this.cancelHold();
+      if (e.key === this.settings.holdToRevealKey) {
+        this.setHolding(win, false);
+      }
+    });
+    // the key up is never seen when the window loses focus first
+    this.registerDomEvent(win, "blur", () => {
+      this.cancelHold();
+      this.setHolding(win, false);
+      if (this.settings.hideOnFocusLoss) {
+        // focus moving to another Obsidian window arrives a moment later
+        window.setTimeout(() => {
+          if (!this.hasFocus()) {
+            this.escalate(Level.HideAll);
+          }
+        }, FOCUS_CHECK_DELAY_MS);
+      }
     });
-    this.addBlurLevelEl(win.document);
+    this.registerDomEvent(win.document, "visibilitychange", () => {
+      if (this.settings.hideWhenDocumentHidden && win.document.hidden) {
+        this.escalate(Level.HideAll);
+      }
+    });
+    this.addWindowState(win);
   }
 
-  checkIdleTimeout() {
-    if (this.settings.blurOnIdleTimeoutSeconds < 0) {
-      return;
-    }
-
-    if (this.currentLevel === Level.HideAll) {
-      return;
-    }
+  // the event is stopped before the editor sees it, and replayed once the
+  // user confirms
+  registerClipboardGuard(win: Window) {
+    const onEvent = (evt: ClipboardEvent | DragEvent) => {
+      const guard = this.settings.clipboardGuard;
+      if (guard === ClipboardGuard.Off || this.replayingClipboardEvent) {
+        return;
+      }
+      const isDrag = evt.type === "dragstart";
+      if (!this.isTakingHiddenContent(win, evt.target, isDrag)) {
+        return;
+      }
+      evt.preventDefault();
+      evt.stopPropagation();
+      if (guard === ClipboardGuard.Block || isDrag) {
+        const action = isDrag ? "dragging" : "copying";
+        new Notice(`Privacy Glasses: reveal the content before ${action} it`);
+        return;
+      }
+      const type = evt.type;
+      const focused = win.document.activeElement as HTMLElement | null;
+      this.confirmHiddenContent(
+        type === "cut" ? "Cut hidden content?" : "Copy hidden content?",
+        "The selection includes content which is hidden right now."
+      ).then((confirmed) => {
+        if (!confirmed) {
+          return;
+        }
+        focused?.focus();
+        this.replayingClipboardEvent = true;
+        try {
+          win.document.execCommand(type);
+        } finally {
+          this.replayingClipboardEvent = false;
+        }
+      });
+    };
+    (["copy", "cut", "dragstart"] as const).forEach((type) =>
+      this.registerDomEvent(win.document, type, onEvent, { capture: true })
+    );
+  }
 
-    if (!this.lastEventTime) {
-      return;
+  // a note is judged by its privacy and its private ranges, anything else by
+  // the hidden elements in the selection
+  isTakingHiddenContent(
+    win: Window,
+    target: EventTarget | null,
+    isDrag: boolean
+  ) {
+    const selection = win.getSelection();
+    const node = isDrag ? (target as Node | null) : selection?.anchorNode;
+    const el = !node?.nodeType
+      ? null
+      : node.nodeType === Node.ELEMENT_NODE
+      ? (node as Element)
+      : node.parentElement;
+    const view = el ? this.markdownViewOf(el) : undefined;
+    if (view && !view.containerEl.hasClass(CssClass.Reveal)) {
+      return true;
     }
-
-    const now = performance.now();
-
     if (
-      (now - this.lastEventTime) / 1000 >=
-      this.settings.blurOnIdleTimeoutSeconds
+      view &&
+      el?.closest(".markdown-source-view") &&
+      !el.closest(".markdown-embed")
     ) {
-      this.currentLevel = Level.HideAll;
-      this.updateLeavesAndGlobalReveals();
+      return this.isEditorSelectionHidden(view);
     }
+    const selector = [
+      HIDEABLE_SELECTOR,
+      ...activeSelectors(this.settings.customSelectors),
+    ].join(", ");
+    return isDrag
+      ? isDragHidden(target, selection, selector)
+      : isSelectionHidden(selection, selector);
   }
 
-  async onunload() {
-    this.statusBar.remove();
-    await this.saveSettings();
+  markdownViewOf(el: Element): MarkdownView | undefined {
+    let found: MarkdownView | undefined;
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      if (
+        leaf.view instanceof MarkdownView &&
+        leaf.view.containerEl.contains(el)
+      ) {
+        found = leaf.view;
+      }
+    });
+    return found;
   }
 
-  async loadSettings() {
-    this.settings = Object.assign(DEFAULT_SETTINGS, await this.loadData());
+  // the editor's selection covers lines which are not rendered, so it is
+  // compared with the private ranges and detected values of the whole note
+  isEditorSelectionHidden(view: MarkdownView) {
+    if (this.getVisibleLevel(view.containerEl.win) === Level.RevealAll) {
+      return false;
+    }
+    const editor = view.editor;
+    const text = editor.getValue();
+    const hidden: OffsetRange[] = [
+      ...findPrivateRanges(text, this.settings.privateSectionMarker),
+      ...detectSensitive(text, this.detectors),
+    ];
+    if (hidden.length === 0) {
+      return false;
+    }
+    const selections = editor.listSelections().map((s) => {
+      const from = editor.posToOffset(s.anchor);
+      const to = editor.posToOffset(s.head);
+      if (from !== to) {
+        return { from: Math.min(from, to), to: Math.max(from, to) };
+      }
+      const line = s.head.line;
+      return {
+        from: editor.posToOffset({ line, ch: 0 }),
+        to: editor.posToOffset({ line, ch: editor.getLine(line).length }) + 1,
+      };
+    });
+    return overlapsAny(selections, hidden);
   }
 
-  async saveSettings() {
-    await this.saveData(this.settings);
+  // printing shows the active note the way the pdf export does. the print
+  // function of each window is wrapped until unload
+  guardPrint(win: Window) {
+    this.register(
+      around(win as any, "print", (next) => () => {
+        if (
+          this.settings.clipboardGuard === ClipboardGuard.Off ||
+          !this.isActiveNoteHidden()
+        ) {
+          next.call(win);
+          return;
+        }
+        if (this.settings.clipboardGuard === ClipboardGuard.Block) {
+          new Notice("Privacy Glasses: reveal this note before printing it");
+          return;
+        }
+        this.confirmHiddenContent(
+          "Print private note?",
+          "This note is private and hidden right now. The printout may not hide all of it."
+        ).then((confirmed) => {
+          if (confirmed) {
+            next.call(win);
+          }
+        });
+      })
+    );
   }
 
-  shouldRevealLeaf(view: View) {
-    if (this.currentLevel === Level.RevealAll) {
-      return true;
+  // core commands can't be hooked, so the export command's callback is
+  // wrapped until unload
+  guardExportCommand() {
+    const command = (this.app as any).commands?.commands?.[EXPORT_PDF_COMMAND];
+    const key = command?.checkCallback
+      ? "checkCallback"
+      : command?.callback
+      ? "callback"
+      : undefined;
+    if (!key) {
+      return;
     }
+    this.register(
+      around(command, key, (next) => (...args: any[]) => {
+        const checking = key === "checkCallback" && args[0];
+        if (
+          checking ||
+          this.settings.clipboardGuard === ClipboardGuard.Off ||
+          !this.isActiveNoteHidden()
+        ) {
+          return next.apply(command, args);
+        }
+        if (this.settings.clipboardGuard === ClipboardGuard.Block) {
+          new Notice("Privacy Glasses: reveal this note before exporting it");
+          return true;
+        }
+        this.confirmHiddenContent(
+          "Export private note?",
+          "This note is private and hidden right now. The exported PDF will not hide anything."
+        ).then((confirmed) => {
+          if (confirmed) {
+            next.apply(command, args);
+          }
+        });
+        return true;
+      })
+    );
+  }
 
-    if (
-      this.currentLevel === Level.HideAll ||
-      this.currentLevel === Level.RevealHeadlines
-    ) {
-      return false;
-    }
+  isActiveNoteHidden() {
+    const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+    return (
+      !!view?.file &&
+      this.getPrivacyDecision(view.file).isPrivate &&
+      !view.containerEl.hasClass(CssClass.PrivacyGlassesReveal)
+    );
+  }
 
-    if (!isMarkdownFileInfoView(view)) {
-      return true;
+  // the passphrase doubles as the confirmation when one is set
+  confirmHiddenContent(title: string, message: string): Promise<boolean> {
+    if (this.settings.passphraseHash) {
+      return this.requestPassphrase();
     }
+    return new Promise((resolve) => {
+      new ConfirmModal(this.app, title, message, resolve).open();
+    });
+  }
 
-    if (
-      view.editor &&
-      this.settings.privateNoteMarker &&
-      this.settings.privateNoteMarker !== ""
-    ) {
-      let tags: string[] = [];
-      // Get tags in the note body, if any
-      if ('tags' in this.app.metadataCache.getFileCache(view.file)) {
-        tags.push(...this.app.metadataCache.getFileCache(view.file).tags.filter(x => !!x.tag).map(x => x.tag));
-      }
-      // Get tags in properties, if any
-      if ('tags' in this.app.metadataCache.getFileCache(view.file)?.frontmatter) {
-        tags.push(...this.app.metadataCache.getFileCache(view.file).frontmatter.tags.filter((x: string) => !!x));
-      }
-      if (tags && tags.length > 0) {
-        return !tags.includes(this.settings.privateNoteMarker);
-      }
-    }
+  hasFocus() {
+    let focused = false;
+    this.windows.forEach((state) => {
+      focused = focused || state.win.document.hasFocus();
+    });
+    return focused;
+  }
 
-    if (
-      view.file &&
-      !this.settings.privateDirs.contains(view.file.parent.path)
-    ) {
-      return true;
+  // holding the key is a shortcut around the passphrase, so it is ignored
+  // while one is set
+  cancelHold() {
+    if (this.holdTimer !== undefined) {
+      window.clearTimeout(this.holdTimer);
+      this.holdTimer = undefined;
     }
+  }
 
-    return false;
+  setHolding(win: Window, holding: boolean) {
+    const holdingWindow =
+      holding && !this.settings.passphraseHash ? win : undefined;
+    if (holdingWindow === this.holdingWindow) {
+      return;
+    }
+    this.holdingWindow = holdingWindow;
+    this.updateLeavesAndGlobalReveals();
   }
 
-  updateLeafViewStyle(view: View) {
-    const isMd = isMarkdownFileInfoView(view) && view.editor;
-    view.containerEl.removeClass(
-      CssClass.IsMdView,
-      CssClass.IsNonMdView,
-      CssClass.IsMdViewHeadlinesOnly);
-    if (isMd && this.currentLevel === Level.RevealHeadlines) {
-      view.containerEl.addClass(CssClass.IsMdViewHeadlinesOnly);
-    } else if (isMd) {
-      view.containerEl.addClass(CssClass.IsMdView);
-    } else {
-      view.containerEl.addClass(CssClass.IsNonMdView);
+  addWindowState(win: Window) {
+    if (this.windows.has(win)) {
+      return;
     }
+    const state = createWindowState(
+      win,
+      (name) => this.privateNames.has(name),
+      (w) => this.getVisibleLevel(w) === Level.RevealAll
+    );
+    this.windows.set(win, state);
+    this.register(() => removeWindowState(state));
+    this.updateBlurLevelEl();
+    this.updateCustomSelectorsEl();
+    this.updatePrivateNames();
+    this.updateGlobalRevealStyle();
+  }
 
-    const shouldReveal = this.shouldRevealLeaf(view);
-    if (shouldReveal) {
-      view.containerEl.addClass(CssClass.PrivacyGlassesReveal);
-      this.revealed.push(view.containerEl);
-    } else {
-      view.containerEl.removeClass(CssClass.PrivacyGlassesReveal);
+  // a pop-out window without a level of its own follows the main window
+  getWindowLevel(win: Window): Level {
+    if (!this.settings.independentWindowLevels || win === window) {
+      return this.currentLevel;
     }
+    return this.windows.get(win)?.level ?? this.currentLevel;
   }
 
-  updateLeavesAndGlobalReveals() {
-    this.updateLeavesStyle();
-    this.updateGlobalRevealStyle();
+  // the level that is shown, which is 'Reveal all' while the hold to reveal
+  // key is held down
+  getVisibleLevel(win: Window): Level {
+    return this.holdingWindow === win
+      ? Level.RevealAll
+      : this.getWindowLevel(win);
   }
 
-  updateLeavesStyle() {
+  // whether switching to the level would hide more in any window
+  hidesMore(level: Level) {
+    let more = isMoreRestrictive(level, this.currentLevel);
+    this.windows.forEach((state) => {
+      more = more || isMoreRestrictive(level, this.getWindowLevel(state.win));
+    });
+    return more;
+  }
+
+  // raises every window to at least the given level. pop-outs with a level of
+  // their own stay hidden when the main window is revealed again
+  escalate(level: Level) {
+    if (!this.hidesMore(level) && this.peekedLeaves.size === 0) {
+      return;
+    }
+    this.peekedLeaves.forEach((timer) => window.clearTimeout(timer));
+    this.peekedLeaves.clear();
+    this.windows.forEach((state) => {
+      if (state.level !== undefined && isMoreRestrictive(level, state.level)) {
+        state.level = level;
+      }
+    });
+    if (isMoreRestrictive(level, this.currentLevel)) {
+      this.setLevel(level, window);
+    } else {
+      this.updateLeavesAndGlobalReveals();
+    }
+  }
+
+  checkIdleTimeout() {
+    const now = Date.now();
+    const gap = (now - (this.lastTick ?? now)) / 1000;
+    this.lastTick = now;
+    if (this.settings.hideAfterSleep && gap > SLEEP_GAP_SECONDS) {
+      this.escalate(Level.HideAll);
+    }
+
+    if (this.lastEventTime === undefined) {
+      return;
+    }
+    const idleSeconds = (performance.now() - this.lastEventTime) / 1000;
+    const steps = this.settings.idleSteps;
+
+    const next = nextIdleStep(steps, idleSeconds, (l) => this.hidesMore(l));
+    const remaining = next ? next.seconds - idleSeconds : undefined;
+    const countdown =
+      remaining !== undefined && remaining <= IDLE_COUNTDOWN_SECONDS
+        ? Math.max(0, Math.ceil(remaining))
+        : undefined;
+    if (countdown !== this.idleCountdown) {
+      this.idleCountdown = countdown;
+      this.updateStatusBar();
+    }
+
+    const due = dueIdleLevel(steps, idleSeconds);
+    if (due) {
+      this.escalate(due);
+    }
+  }
+
+  showLevelMenu(evt: MouseEvent) {
+    const menu = new Menu();
+    [
+      Level.HideAll,
+      Level.HidePrivate,
+      Level.RevealHeadlines,
+      Level.RevealAll,
+    ].forEach((level) => {
+      menu.addItem((item) =>
+        item
+          .setTitle(LEVEL_NAMES[level])
+          .setIcon(LEVEL_ICONS[level])
+          .setChecked(level === this.currentLevel)
+          .onClick(() => this.setLevel(level))
+      );
+    });
+    if (this.settings.profiles.length > 0) {
+      menu.addSeparator();
+      this.settings.profiles.forEach((profile) => {
+        menu.addItem((item) =>
+          item
+            .setTitle("Profile: " + profile.name)
+            .setChecked(profile.id === this.settings.activeProfileId)
+            .onClick(() => this.activateProfile(profile))
+        );
+      });
+    }
+    menu.showAtMouseEvent(evt);
+  }
+
+  countHiddenPrivateLeaves(): number {
+    let count = 0;
     this.app.workspace.iterateAllLeaves((e) => {
-      this.updateLeafViewStyle(e.view);
+      const view = e.view;
+      const file = fileOfView(view);
+      if (
+        file &&
+        !view.containerEl.hasClass(CssClass.PrivacyGlassesReveal) &&
+        this.getPrivacyDecision(file).isPrivate
+      ) {
+        count++;
+      }
     });
+    return count;
   }
 
-  updateGlobalRevealStyle() {
-    this.removeAllClasses();
-    this.setClassToDocumentBody(this.currentLevel);
+  updateStatusBar() {
+    if (!this.currentLevel) {
+      return;
+    }
+    const profile = this.settings.profiles.find(
+      (p) => p.id === this.settings.activeProfileId
+    );
+    this.statusBarWidget.update({
+      level: this.currentLevel,
+      profile: profile?.name,
+      hiddenPrivate: this.countHiddenPrivateLeaves(),
+      idleCountdown: this.idleCountdown,
+    });
+  }
+
+  // all level changes go through here, so the passphrase can't be skipped.
+  // it is asked for whenever the level reveals anything the current one
+  // hides, unless the caller already did. resolves to false when the
+  // passphrase was not entered. with independent window levels, a pop-out
+  // window only changes its own level
+  async setLevel(
+    level: Level,
+    win: Window = activeWindow,
+    passphraseEntered = false
+  ): Promise<boolean> {
+    if (
+      !passphraseEntered &&
+      revealsMore(level, this.getWindowLevel(win)) &&
+      !(await this.requestPassphrase())
+    ) {
+      return false;
+    }
+    this.cancelPeek();
+    const state = this.windows.get(win);
+    if (this.settings.independentWindowLevels && win !== window && state) {
+      state.level = level;
+    } else {
+      this.currentLevel = level;
+    }
+    this.updateLeavesAndGlobalReveals();
+    this.api.trigger("level-changed", level, win);
+    return true;
+  }
 
-    if (this.settings.hoverToReveal) {
-      document.body.classList.add(CssClass.RevealOnHover);
+  // reveals everything for a while, then restores the previous level unless
+  // it was changed in between. peeking again while a peek runs only restarts
+  // its timer, the level to restore is still the one from before the first
+  async peekAll(win: Window = activeWindow) {
+    let restore = this.peekRestore;
+    if (this.peekTimer !== undefined && restore) {
+      window.clearTimeout(this.peekTimer);
+    } else {
+      const previous = this.getWindowLevel(win);
+      if (!(await this.setLevel(Level.RevealAll, win))) {
+        return;
+      }
+      restore = { level: previous, win };
     }
-    if (this.settings.revealUnderCaret) {
-      document.body.classList.add(CssClass.RevealUnderCaret);
+    const { level, win: peekWin } = restore;
+    this.peekRestore = restore;
+    this.peekTimer = window.setTimeout(() => {
+      this.setLevel(level, peekWin);
+    }, this.settings.peekSeconds * 1000);
+    new Notice(`Privacy Glasses: revealed for ${this.settings.peekSeconds} seconds`);
+  }
+
+  cancelPeek() {
+    if (this.peekTimer !== undefined) {
+      window.clearTimeout(this.peekTimer);
+      this.peekTimer = undefined;
     }
+    this.peekRestore = undefined;
   }
 
-  removeAllClasses() {
-    document.body.removeClass(
-      CssClass.BlurAll,
-      CssClass.RevealOnHover,
-      CssClass.RevealAll,
-      CssClass.RevealUnderCaret,
-      CssClass.RevealHeadlines
+  async peekLeaf(leaf: WorkspaceLeaf) {
+    if (
+      !leaf.view.containerEl.hasClass(CssClass.PrivacyGlassesReveal) &&
+      !(await this.requestPassphrase())
+    ) {
+      return;
+    }
+    window.clearTimeout(this.peekedLeaves.get(leaf));
+    this.peekedLeaves.set(
+      leaf,
+      window.setTimeout(() => {
+        this.peekedLeaves.delete(leaf);
+        this.updateLeafViewStyle(leaf);
+        this.updateStatusBar();
+      }, this.settings.peekSeconds * 1000)
     );
+    this.updateLeafViewStyle(leaf);
+    this.updateStatusBar();
   }
 
-  setClassToDocumentBody(currentLevel: Level) {
-    switch (currentLevel) {
-      case Level.HideAll:
-        document.body.classList.add(CssClass.BlurAll);
-        break;
-      case Level.RevealAll:
-        document.body.classList.add(CssClass.RevealAll);
-        break;
-      case Level.RevealHeadlines:
-        document.body.classList.add(CssClass.RevealHeadlines);
-        break;
+  addProfileCommand(profile: PrivacyProfile) {
+    this.addCommand({
+      id: "privacy-glasses-profile-" + profile.id,
+      name: "Privacy Glasses - activate profile " + profile.name,
+      checkCallback: (checking) => {
+        const p = this.settings.profiles.find((x) => x.id === profile.id);
+        if (!p) {
+          return false;
+        }
+        if (!checking) {
+          this.activateProfile(p);
+        }
+        return true;
+      },
+    });
+  }
+
+  removeProfileCommand(profile: PrivacyProfile) {
+    this.removeCommand("privacy-glasses-profile-" + profile.id);
+  }
+
+  saveCurrentToProfile(profile: PrivacyProfile) {
+    profile.level = this.currentLevel;
+    profile.blurLevel = this.settings.blurLevel;
+    profile.hoverToReveal = this.settings.hoverToReveal;
+    profile.revealUnderCaret = this.settings.revealUnderCaret;
+    profile.rules = this.settings.rules.map((r) => ({ ...r }));
+  }
+
+  // whether the profile would reveal anything hidden now: a level which
+  // reveals more, hover or caret reveal, or rules under which a private file
+  // is public
+  profileRevealsMore(profile: PrivacyProfile) {
+    if (
+      revealsMore(profile.level, this.currentLevel) ||
+      (profile.hoverToReveal && !this.settings.hoverToReveal) ||
+      (profile.revealUnderCaret && !this.settings.revealUnderCaret)
+    ) {
+      return true;
     }
+    return this.privacyIndex.privatePaths().some((path) => {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      return !!file && !this.evaluatePrivacy(file, profile.rules).isPrivate;
+    });
   }
 
-  addBlurLevelEl(doc: Document) {
-    this.blurLevelStyleEl = doc.createElement("style");
-    this.blurLevelStyleEl.id = "privacyGlassesBlurLevel";
-    doc.head.appendChild(this.blurLevelStyleEl);
+  // schedules and workspaces don't ask for the passphrase on their own, a
+  // profile which needs it is skipped with a notice instead
+  async activateProfile(profile: PrivacyProfile, automatic = false) {
+    const needsPassphrase =
+      !!this.settings.passphraseHash && this.profileRevealsMore(profile);
+    if (needsPassphrase && automatic) {
+      new Notice(
+        `Privacy Glasses: profile "${profile.name}" reveals more and needs the passphrase, activate it with "switch profile"`
+      );
+      return;
+    }
+    if (needsPassphrase && !(await this.requestPassphrase())) {
+      return;
+    }
+    if (!(await this.setLevel(profile.level, window, needsPassphrase))) {
+      return;
+    }
+    this.settings.blurLevel = profile.blurLevel;
+    this.settings.hoverToReveal = profile.hoverToReveal;
+    this.settings.revealUnderCaret = profile.revealUnderCaret;
+    this.settings.rules = profile.rules.map((r) => ({ ...r }));
+    this.settings.activeProfileId = profile.id;
+    await this.saveSettings();
     this.updateBlurLevelEl();
+    this.onPrivacyRulesChanged();
+    this.updateStatusBar();
+    new Notice(`Privacy Glasses: profile "${profile.name}"`);
   }
 
-  updateBlurLevelEl() {
-    if (!this.blurLevelStyleEl) {
+  // a profile is only activated when its schedule starts, so switching to
+  // another level or profile manually sticks until the next schedule change
+  checkProfileSchedule() {
+    const profile = findScheduledProfile(this.settings.profiles, new Date());
+    if (profile?.id === this.lastScheduledProfileId) {
       return;
     }
-    this.blurLevelStyleEl.textContent = `body {--blurLevel:${this.settings.blurLevel}em};`;
+    this.lastScheduledProfileId = profile?.id;
+    if (profile) {
+      this.activateProfile(profile, true);
+    }
   }
 
-  updatePrivateDirsEl(doc?: Document) {
-    if (doc && !this.privateDirsStyleEl) {
-      this.privateDirsStyleEl = doc.createElement("style");
-      this.privateDirsStyleEl.id = "privacyGlassesDirBlur";
-      doc.head.appendChild(this.privateDirsStyleEl);
+  // the core Workspaces plugin has no public API, its active layout name is
+  // read from the plugin instance
+  getActiveWorkspaceName(): string | undefined {
+    const workspaces = (this.app as any).internalPlugins?.getPluginById?.(
+      "workspaces"
+    );
+    return workspaces?.enabled
+      ? workspaces.instance?.activeWorkspace
+      : undefined;
+  }
+
+  checkWorkspaceProfile() {
+    const name = this.getActiveWorkspaceName();
+    if (name === this.lastWorkspace) {
+      return;
+    }
+    this.lastWorkspace = name;
+    const profile = this.settings.profiles.find(
+      (p) => p.workspace.trim() !== "" && p.workspace.trim() === name
+    );
+    if (profile) {
+      this.activateProfile(profile, true);
     }
-    const dirs = this.settings.privateDirs.split(",");
-    this.privateDirsStyleEl.textContent = dirs
-      .map(
-        (d) =>
-          `
+  }
 
-          :is(.nav-folder-title, .nav-file-title)[data-path^=${d}] {filter: blur(calc(var(--blurLevel) * 0))}
+  // resolves to true when no passphrase is set or the user entered it
+  requestPassphrase(): Promise<boolean> {
+    if (!this.settings.passphraseHash) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      new PassphraseModal(
+        this.app,
+        (input) => this.tryPassphrase(input),
+        resolve
+      ).open();
+    });
+  }
 
-          :is(.nav-folder-title, .nav-file-title)[data-path^=${d}]:hover {filter: unset}
+  async tryPassphrase(input: string): Promise<string | undefined> {
+    const now = Date.now();
+    if (this.settings.passphraseLockedUntil > now) {
+      const seconds = Math.ceil((this.settings.passphraseLockedUntil - now) / 1000);
+      return `Too many failed attempts, try again in ${seconds} seconds`;
+    }
+    const hash = await hashPassphrase(input, this.settings.passphraseSalt);
+    if (hash === this.settings.passphraseHash) {
+      this.settings.passphraseFailedAttempts = 0;
+      await this.saveSettings();
+      return undefined;
+    }
+    this.settings.passphraseFailedAttempts++;
+    if (this.settings.passphraseFailedAttempts >= MAX_FAILED_ATTEMPTS) {
+      this.settings.passphraseFailedAttempts = 0;
+      this.settings.passphraseLockedUntil = now + LOCKOUT_SECONDS * 1000;
+      await this.saveSettings();
+      return `Too many failed attempts, try again in ${LOCKOUT_SECONDS} seconds`;
+    }
+    await this.saveSettings();
+    return "Wrong passphrase";
+  }
 
-          .privacy-glasses-reveal-all :is(.nav-folder-title, .nav-file-title)[data-path^=${d}] {filter: unset}
+  async onunload() {
+    this.cancelPeek();
+    this.cancelHold();
+    this.peekedLeaves.forEach((timer) => window.clearTimeout(timer));
+    this.statusBar.remove();
+    await this.saveSettings();
+  }
 
+  async loadSettings() {
+    const data = await this.loadData();
+    const loaded = parseSettings(data);
+    this.settings = loaded.settings;
+    if (loaded.problems.length > 0) {
+      new Notice(
+        "Privacy Glasses: invalid settings were reset to their defaults: " +
+          loaded.problems.join(", ")
+      );
+    }
+    if (data && (loaded.version < SETTINGS_VERSION || loaded.problems.length > 0)) {
+      await this.saveSettings();
+    }
+  }
 
-          `
-      )
-      .join("");
+  async saveSettings() {
+    await this.saveData(this.settings);
   }
-}
 
-interface PrivacyGlassesSettings {
-  blurOnStartup: Level;
-  blurLevel: number;
-  blurOnIdleTimeoutSeconds: number;
-  hoverToReveal: boolean;
-  revealUnderCaret: boolean;
-  privateDirs: string;
-  privateNoteMarker: string;
-}
+  // written to the root of the vault, where it can be shared with other
+  // vaults and imported there
+  async exportConfiguration() {
+    const json = exportSettings(this.settings);
+    const existing = this.app.vault.getAbstractFileByPath(CONFIGURATION_FILE);
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, json);
+    } else {
+      await this.app.vault.create(CONFIGURATION_FILE, json);
+    }
+    new Notice(`Privacy Glasses: configuration exported to ${CONFIGURATION_FILE}`);
+  }
 
-const DEFAULT_SETTINGS: PrivacyGlassesSettings = {
-  blurOnStartup: Level.HidePrivate,
-  blurLevel: 0.3,
-  blurOnIdleTimeoutSeconds: -1,
-  hoverToReveal: true,
-  revealUnderCaret: false,
-  privateDirs: "",
-  privateNoteMarker: "#private",
-};
+  // an import can make notes public, so it needs the passphrase
+  async importConfiguration(file: TFile) {
+    if (!(await this.requestPassphrase())) {
+      return;
+    }
+    let loaded;
+    try {
+      loaded = importSettings(await this.app.vault.read(file), this.settings);
+    } catch (e) {
+      new Notice(`Privacy Glasses: could not import ${file.path}, ${e.message}`);
+      return;
+    }
+    if (loaded.version > SETTINGS_VERSION) {
+      new Notice(
+        `Privacy Glasses: ${file.path} was exported by a newer version, settings it does not know about were left out`
+      );
+    }
+    const previous = this.settings;
+    this.settings = loaded.settings;
+    await this.saveSettings();
+    this.onSettingsReplaced(previous);
+    new Notice(
+      loaded.problems.length > 0
+        ? `Privacy Glasses: configuration imported, invalid settings were reset to their defaults: ${loaded.problems.join(", ")}`
+        : "Privacy Glasses: configuration imported"
+    );
+  }
 
-class privacyGlassesSettingTab extends PluginSettingTab {
-  plugin: PrivacyGlassesPlugin;
-  constructor(app: App, plugin: PrivacyGlassesPlugin) {
-    super(app, plugin);
-    this.plugin = plugin;
+  // runs what the settings tab runs when each of them changes
+  onSettingsReplaced(previous: PrivacyGlassesSettings) {
+    previous.profiles.forEach((p) => this.removeProfileCommand(p));
+    this.settings.profiles.forEach((p) => this.addProfileCommand(p));
+    this.updateReferrers();
+    this.updateBlurLevelEl();
+    this.updateCustomSelectorsEl();
+    this.updateDetectors();
+    this.onPrivacyRulesChanged();
+    this.onStructureOptionsChanged();
+    this.updateStatusBar();
   }
 
-  display(): void {
-    let { containerEl } = this;
+  shouldRevealLeaf(view: View) {
+    const level = this.getVisibleLevel(view.containerEl.win);
+    if (
+      level === Level.HidePrivate &&
+      GRAPH_VIEW_TYPES.contains(view.getViewType())
+    ) {
+      return this.privatePaths.size === 0;
+    }
 
-    containerEl.empty();
-    containerEl.createEl("h3", {
-      text: "Privacy Glasses v" + this.plugin.manifest.version,
-    });
-    containerEl.createEl("a", {
-      text: "https://github.com/jillalberts/privacy-glasses",
-      href: "https://github.com/jillalberts/privacy-glasses",
-    });
-    containerEl.createEl("span", {
-      text: ": documentation, report issues, contact info",
-    });
-    containerEl.createEl("p", {
-      text: 'To activate/deactivate Privacy Glasses, click the glasses icon on the left-hand ribbon or run "Privacy Glasses" commands in the Command Palette (Ctrl-P). The command can also be bound to a keyboard shortcut if you wish.',
-    });
+    // attachments are judged by their own path, like notes
+    return this.shouldRevealFile(fileOfView(view), level);
+  }
 
-    new Setting(containerEl)
-      .setName("Activate Privacy Glasses on startup")
-      .setDesc(
-        "Indicates whether the plugin is automatically activated when starting Obsidian."
-      )
-      .addDropdown((toggle) => {
-        toggle.addOptions({
-          "hide-all": "Hide all",
-          "hide-private": "Hide private (default)",
-          "reveal-all": "Reveal all",
-          "reveal-headlines": "Reveal headlines only"
-        });
-        toggle.setValue(this.plugin.settings.blurOnStartup);
-        toggle.onChange(async (value) => {
-          this.plugin.settings.blurOnStartup = value as Level;
-          await this.plugin.saveSettings();
-        });
-      });
+  // views without a file, such as the file explorer, are only hidden in
+  // 'Hide all' and 'Reveal headlines only'
+  shouldRevealFile(file: TAbstractFile | undefined, level: Level) {
+    if (level === Level.RevealAll) {
+      return true;
+    }
 
-    new Setting(containerEl)
-      .setName("Hide all after user inactivity (seconds)")
-      .setDesc(
-        "Inactivity time after which Privacy Glasses will hide all. -1 to disable auto-hiding."
-      )
-      .addText((textfield) => {
-        textfield.setPlaceholder("-1");
-        textfield.inputEl.type = "number";
-        textfield.inputEl.min = "-1";
-        textfield.setValue(
-          String(this.plugin.settings.blurOnIdleTimeoutSeconds)
+    if (level === Level.HideAll || level === Level.RevealHeadlines) {
+      return false;
+    }
+
+    if (!file) {
+      return true;
+    }
+
+    return !this.getPrivacyDecision(file).isPrivate;
+  }
+
+  getPrivacyDecision(file: TAbstractFile): PrivacyDecision {
+    return this.privacyIndex.get(file);
+  }
+
+  // uncached, see getPrivacyDecision
+  evaluatePrivacy(
+    file: TAbstractFile,
+    rules: PrivacyRule[] = this.settings.rules
+  ): PrivacyDecision {
+    const decision = evaluateRules(this.app, rules, file);
+    if (decision.rule || !isAttachment(file)) {
+      return decision;
+    }
+    const inherited = inheritPrivacy(
+      this.settings.attachmentInheritance,
+      this.referrers.get(file.path),
+      (path) => {
+        const note = this.app.vault.getAbstractFileByPath(path);
+        return !!note && evaluateRules(this.app, rules, note).isPrivate;
+      }
+    );
+    return inherited ?? decision;
+  }
+
+  auditFile(file: TAbstractFile, referrers: string[]): AuditEntry {
+    const decision = this.getPrivacyDecision(file);
+    const matches = matchingRules(this.app, this.settings.rules, file);
+    return {
+      file,
+      decision,
+      matches,
+      warnings: findWarnings(
+        file,
+        decision,
+        matches,
+        referrers,
+        (f) => this.getPrivacyDecision(f).isPrivate
+      ),
+    };
+  }
+
+  // private files and files whose privacy looks unintended
+  auditVault(): AuditEntry[] {
+    const referrers = findReferrers(this.app.metadataCache.resolvedLinks);
+    return this.app.vault
+      .getAllLoadedFiles()
+      .filter((f) => f.path !== "/")
+      .map((f) => this.auditFile(f, referrers.get(f.path) ?? []))
+      .filter((e) => e.decision.isPrivate || e.warnings.length > 0)
+      .sort((a, b) => a.file.path.localeCompare(b.file.path));
+  }
+
+  async openAuditView() {
+    const leaf =
+      this.app.workspace.getLeavesOfType(AUDIT_VIEW_TYPE)[0] ??
+      this.app.workspace.getRightLeaf(false);
+    if (!leaf) {
+      return;
+    }
+    await leaf.setViewState({ type: AUDIT_VIEW_TYPE, active: true });
+    this.app.workspace.revealLeaf(leaf);
+  }
+
+  // only kept while attachments inherit privacy
+  updateReferrers() {
+    if (this.settings.attachmentInheritance === AttachmentInheritance.Off) {
+      this.referrers.clear();
+    } else {
+      this.referrers.rebuild(this.app.metadataCache.resolvedLinks);
+    }
+  }
+
+  // only the attachments which gained or lost a referrer are evaluated again
+  onLinksChanged(source: string, targets: string[]) {
+    if (this.settings.attachmentInheritance === AttachmentInheritance.Off) {
+      return;
+    }
+    this.onPrivacyIndexChanged(
+      this.updateAttachments(this.referrers.setLinks(source, targets))
+    );
+  }
+
+  isPrivateLink(link: string, sourcePath: string) {
+    const target = this.app.metadataCache.getFirstLinkpathDest(
+      getLinkpath(link),
+      sourcePath
+    );
+    return !!target && this.privatePaths.has(target.path);
+  }
+
+  // a canvas node is private when it shows a private file, or when its text
+  // links to a private note or contains a private section or span
+  isPrivateCanvasNode(node: AllCanvasNodeData, sourcePath: string) {
+    switch (node.type) {
+      case "file":
+        return this.privatePaths.has(node.file);
+      case "text":
+        return (
+          findPrivateRanges(node.text, this.settings.privateSectionMarker)
+            .length > 0 ||
+          findLinks(node.text).some((l) => this.isPrivateLink(l.link, sourcePath))
         );
-        textfield.onChange(async (value) => {
-          let parsed = parseFloat(value);
-          if (isNaN(parsed)) {
-            parsed = -1;
-          }
-          this.plugin.settings.blurOnIdleTimeoutSeconds = parsed;
-          await this.plugin.saveSettings();
-        });
-      });
+    }
+    return false;
+  }
 
-    new Setting(containerEl)
-      .setName("Hover to reveal")
-      .setDesc(
-        "Indicates whether or not to reveal content when hovering the cursor over it."
-      )
-      .addToggle((toggle) => {
-        toggle.setValue(this.plugin.settings.hoverToReveal);
-        toggle.onChange(async (value) => {
-          this.plugin.settings.hoverToReveal = value;
-          this.plugin.updateLeavesAndGlobalReveals();
-          await this.plugin.saveSettings();
-        });
-      });
+  onPrivacyRulesChanged() {
+    this.privacyIndex.rebuild(this.app.vault.getAllLoadedFiles());
+    this.updateLeavesAndGlobalReveals();
+    this.updatePrivateNames();
+  }
 
-    new Setting(containerEl)
-      .setName("Reveal under caret")
-      .setDesc(
-        "Indicates whether or not to reveal content when caret is on it."
-      )
-      .addToggle((toggle) => {
-        toggle.setValue(this.plugin.settings.revealUnderCaret);
-        toggle.onChange(async (value) => {
-          this.plugin.settings.revealUnderCaret = value;
-          this.plugin.updateGlobalRevealStyle();
-          await this.plugin.saveSettings();
-        });
+  // attachments inheriting their privacy change with the notes linking to
+  // them
+  onFileChanged(file: TAbstractFile, oldPath?: string) {
+    const changed =
+      oldPath === undefined
+        ? this.privacyIndex.update(file)
+        : this.privacyIndex.rename(file, oldPath);
+    if (this.settings.attachmentInheritance !== AttachmentInheritance.Off) {
+      changed.slice().forEach((path) => {
+        const links = this.referrers.links.get(path) ?? [];
+        changed.push(...this.updateAttachments(links));
       });
+    }
+    this.onPrivacyIndexChanged(changed);
+  }
+
+  // returns the paths whose privacy changed
+  updateAttachments(paths: string[]): string[] {
+    const changed: string[] = [];
+    paths.forEach((path) => {
+      const f = this.app.vault.getAbstractFileByPath(path);
+      if (f && isAttachment(f)) {
+        changed.push(...this.privacyIndex.update(f));
+      }
+    });
+    return changed;
+  }
+
+  onPrivacyIndexChanged(changed: string[]) {
+    if (changed.length === 0) {
+      return;
+    }
+    this.updatePrivateNames();
+    this.updateLeavesOfPaths(new Set(changed));
+  }
+
+  onStructureOptionsChanged() {
+    this.updateGlobalRevealStyle();
+    this.app.workspace.updateOptions();
+    this.rerenderReadingViews();
+  }
+
+  updateDetectors() {
+    this.detectors = this.settings.detectSensitiveData
+      ? compileDetectors(
+          this.settings.disabledDetectors,
+          this.settings.customDetectors
+        )
+      : [];
+    this.app.workspace.updateOptions();
+    this.rerenderReadingViews();
+  }
+
+  rerenderReadingViews() {
+    this.app.workspace.iterateAllLeaves((e) => {
+      if (e.view instanceof MarkdownView) {
+        e.view.previewMode.rerender(true);
+      }
+    });
+  }
+
+  showDetectedItems(view: MarkdownView) {
+    const editor = view.editor;
+    const matches = detectSensitive(editor.getValue(), this.detectors);
+    if (matches.length === 0) {
+      new Notice("Privacy Glasses: no sensitive data detected in this note");
+      return;
+    }
+    const items = matches.map((m) => ({
+      ...m,
+      line: editor.offsetToPos(m.from).line,
+    }));
+    new DetectedItemsModal(this.app, items, (item) => {
+      const from = editor.offsetToPos(item.from);
+      editor.setCursor(from);
+      editor.scrollIntoView({ from, to: editor.offsetToPos(item.to) }, true);
+    }).open();
+  }
+
+  getLeafOverride(leaf: WorkspaceLeaf): LeafOverride {
+    return this.leafOverrides.get(leaf) ?? LeafOverride.FollowGlobal;
+  }
+
+  async setLeafOverride(leaf: WorkspaceLeaf, override: LeafOverride) {
+    // revealing a pane can reveal private notes
+    if (
+      override === LeafOverride.AlwaysReveal &&
+      !(await this.requestPassphrase())
+    ) {
+      return;
+    }
+    this.leafOverrides.set(leaf, override);
+    this.updateLeafViewStyle(leaf);
+    this.app.workspace.requestSaveLayout();
+  }
 
-    var sliderEl = new Setting(containerEl);
-    let sliderElDesc = "Higher is blurrier. Default=60, current=";
-    sliderEl
-      .setName("Blur level")
-      .setDesc(sliderElDesc + Math.round(this.plugin.settings.blurLevel * 100))
-      // ^ need rounding to not show values like '55.00000000000001'
-      .addSlider((slider) =>
-        slider
-          .setLimits(0.1, 1.5, 0.05)
-          .setValue(this.plugin.settings.blurLevel)
-          .onChange(async (value) => {
-            this.plugin.settings.blurLevel = value;
-            sliderEl.setDesc(
-              sliderElDesc + Math.round(this.plugin.settings.blurLevel * 100)
-            );
-            this.plugin.updateBlurLevelEl();
-            this.plugin.saveSettings();
-          })
+  addMarkMenuItems(menu: Menu, files: TAbstractFile[]) {
+    const isPrivate = (f: TAbstractFile) => this.getPrivacyDecision(f).isPrivate;
+    const publicFiles = files.filter((f) => !isPrivate(f));
+    const privateFiles = files.filter(isPrivate);
+    if (publicFiles.length > 0) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Make private")
+          .setIcon("eye-closed")
+          .onClick(() => this.setFilesPrivacy(publicFiles, true))
       );
+    }
+    if (privateFiles.length > 0) {
+      menu.addItem((item) =>
+        item
+          .setTitle("Make public")
+          .setIcon("eye")
+          .onClick(() => this.setFilesPrivacy(privateFiles, false))
+      );
+    }
+  }
 
-    new Setting(containerEl)
-      .setName("Private directories")
-      .setDesc(
-        "Comma-separated list of directories, in which files are considered private"
-      )
-      .addText((text) =>
-        text
-          .setPlaceholder("finance,therapy")
-          .setValue(this.plugin.settings.privateDirs)
-          .onChange(async (value) => {
-            this.plugin.settings.privateDirs = value;
-            await this.plugin.saveSettings();
-            this.plugin.updateLeavesAndGlobalReveals();
-            this.plugin.updatePrivateDirsEl();
-          })
+  // see src/marking.ts. making files public reveals them, which asks for the
+  // passphrase. a file made private by a rule of another kind gets a public
+  // path rule, removing the marker would not change anything. so does a file
+  // the marker did not decide for, once the metadata cache has read it again
+  async setFilesPrivacy(files: TAbstractFile[], makePrivate: boolean) {
+    if (!makePrivate && !(await this.requestPassphrase())) {
+      return;
+    }
+    const strategy = this.settings.markStrategy;
+    const isTag = strategy === MarkStrategy.Tag;
+    const marker = isTag ? this.settings.markTag : this.settings.markProperty;
+    const kind = isTag ? RuleKind.Tag : RuleKind.Property;
+    const rules = this.settings.rules;
+    let rulesChanged = false;
+    // files where the marker did not decide and a path rule was added
+    const withPathRule: string[] = [];
+    for (const file of files) {
+      const decisive = this.evaluatePrivacy(file).rule;
+      let decided = false;
+      if (
+        usesFrontmatter(strategy, file) &&
+        marker.trim() !== "" &&
+        (makePrivate || decisive?.kind === kind)
+      ) {
+        const changed = metadataChanged(this.app, file);
+        await setFrontmatterMarker(this.app, file, strategy, marker, makePrivate);
+        if (makePrivate) {
+          rulesChanged = ensurePrivateRule(rules, kind, marker) || rulesChanged;
+        }
+        await changed;
+        decided = this.evaluatePrivacy(file).isPrivate === makePrivate;
+        if (!decided) {
+          withPathRule.push(file.name);
+        }
+      }
+      if (!decided) {
+        setPathRule(
+          rules,
+          file.path,
+          makePrivate,
+          () => this.evaluatePrivacy(file).isPrivate
+        );
+        rulesChanged = true;
+      }
+    }
+    if (rulesChanged) {
+      await this.saveSettings();
+      this.onPrivacyRulesChanged();
+    }
+    const state = makePrivate ? "private" : "public";
+    const failed = files.filter(
+      (f) => this.evaluatePrivacy(f).isPrivate !== makePrivate
+    );
+    if (failed.length > 0) {
+      new Notice(
+        `Privacy Glasses: could not make ${failed.map((f) => f.name).join(", ")} ${state}`
       );
+      return;
+    }
+    const what = files.length === 1 ? files[0].name : `${files.length} items`;
+    new Notice(
+      withPathRule.length > 0
+        ? `Privacy Glasses: ${what} made ${state}, with a path rule for ${withPathRule.join(", ")} as the ${isTag ? "tag" : "property"} did not decide`
+        : `Privacy Glasses: ${what} made ${state}`
+    );
+  }
+
+  addLeafOverrideMenuItems(menu: Menu, leaf: WorkspaceLeaf) {
+    const current = this.getLeafOverride(leaf);
+    [
+      LeafOverride.FollowGlobal,
+      LeafOverride.AlwaysHide,
+      LeafOverride.AlwaysReveal,
+    ].forEach((override) => {
+      menu.addItem((item) =>
+        item
+          .setTitle("Privacy: " + LEAF_OVERRIDE_NAMES[override].toLowerCase())
+          .setIcon(LEAF_OVERRIDE_ICONS[override])
+          .setChecked(override === current)
+          .onClick(() => this.setLeafOverride(leaf, override))
+      );
+    });
+  }
 
-    new Setting(containerEl)
-      .setName("Private note marker")
-      .setDesc("Start a note with this text to mark note as private")
-      .addText((text) =>
-        text
-          .setPlaceholder("#private")
-          .setValue(this.plugin.settings.privateNoteMarker)
-          .onChange(async (value) => {
-            this.plugin.settings.privateNoteMarker = value;
-            await this.plugin.saveSettings();
-            this.plugin.updateLeavesStyle();
-          })
+  // a header action shows that the pane does not follow the global level,
+  // and opens the override menu when clicked
+  updateOverrideIndicator(leaf: WorkspaceLeaf) {
+    const view = leaf.view;
+    const override = this.getLeafOverride(leaf);
+    let indicator = this.overrideIndicators.get(view);
+    if (override === LeafOverride.FollowGlobal) {
+      indicator?.remove();
+      this.overrideIndicators.delete(view);
+      return;
+    }
+    if (!(view instanceof ItemView)) {
+      return;
+    }
+    if (!indicator) {
+      indicator = view.addAction(
+        LEAF_OVERRIDE_ICONS[override],
+        LEAF_OVERRIDE_NAMES[override],
+        (evt) => {
+          const menu = new Menu();
+          this.addLeafOverrideMenuItems(menu, leaf);
+          menu.showAtMouseEvent(evt);
+        }
       );
+      indicator.addClass("privacy-glasses-override-indicator");
+      this.overrideIndicators.set(view, indicator);
+    }
+    setIcon(indicator, LEAF_OVERRIDE_ICONS[override]);
+    indicator.setAttr("aria-label", LEAF_OVERRIDE_NAMES[override]);
+  }
+
+  updateLeafViewStyle(leaf: WorkspaceLeaf) {
+    const view = leaf.view;
+    const override = this.getLeafOverride(leaf);
+    this.styledViews.add(view);
+    this.updateOverrideIndicator(leaf);
+
+    const isMd = isMarkdownFileInfoView(view) && view.editor;
+    const viewType = view.getViewType();
+    view.containerEl.removeClass(
+      CssClass.IsMdView,
+      CssClass.IsNonMdView,
+      CssClass.IsMdViewHeadlinesOnly,
+      CssClass.IsCanvasView,
+      CssClass.IsPdfView,
+      CssClass.IsCustomView);
+    if (
+      isMd &&
+      this.getVisibleLevel(view.containerEl.win) === Level.RevealHeadlines &&
+      override !== LeafOverride.AlwaysReveal
+    ) {
+      view.containerEl.addClass(CssClass.IsMdViewHeadlinesOnly);
+    } else if (isMd) {
+      view.containerEl.addClass(CssClass.IsMdView);
+    } else if (viewType === CANVAS_VIEW_TYPE) {
+      view.containerEl.addClass(CssClass.IsCanvasView);
+      const sourcePath = fileOfView(view)?.path ?? "";
+      tagCanvasNodes(view, (node) => this.isPrivateCanvasNode(node, sourcePath));
+    } else if (viewType === PDF_VIEW_TYPE) {
+      view.containerEl.addClass(CssClass.IsPdfView);
+    } else if (customViewTypes(this.settings.customSelectors).contains(viewType)) {
+      view.containerEl.addClass(CssClass.IsCustomView);
+    } else {
+      view.containerEl.addClass(CssClass.IsNonMdView);
+    }
+
+    const shouldReveal = this.peekedLeaves.has(leaf)
+      ? true
+      : override === LeafOverride.FollowGlobal
+      ? this.shouldRevealLeaf(view)
+      : override === LeafOverride.AlwaysReveal;
+    if (shouldReveal) {
+      view.containerEl.addClass(CssClass.PrivacyGlassesReveal);
+    } else {
+      view.containerEl.removeClass(CssClass.PrivacyGlassesReveal);
+    }
+
+    // the tab title is not part of the view, and only reachable through
+    // private api
+    const file = fileOfView(view);
+    const titleEl: HTMLElement | undefined = (leaf as any)
+      .tabHeaderInnerTitleEl;
+    titleEl?.toggleClass(
+      CssClass.PrivateName,
+      !shouldReveal && !!file && this.getPrivacyDecision(file).isPrivate
+    );
+  }
+
+  updateLeavesAndGlobalReveals() {
+    this.updateLeavesStyle();
+    this.updateGlobalRevealStyle();
+  }
+
+  updateLeavesStyle() {
+    this.app.workspace.iterateAllLeaves((e) => {
+      this.updateLeafViewStyle(e);
+    });
+    this.updateStatusBar();
+  }
+
+  // panes showing one of the paths, and graphs and canvases, which show
+  // other files as well
+  updateLeavesOfPaths(paths: Set<string>) {
+    this.app.workspace.iterateAllLeaves((leaf) => {
+      const type = leaf.view.getViewType();
+      const path = fileOfView(leaf.view)?.path;
+      if (
+        (path !== undefined && paths.has(path)) ||
+        GRAPH_VIEW_TYPES.contains(type) ||
+        type === CANVAS_VIEW_TYPE
+      ) {
+        this.updateLeafViewStyle(leaf);
+      }
+    });
+    this.updateStatusBar();
+  }
+
+  updateGlobalRevealStyle() {
+    this.windows.forEach((state) => {
+      const body = state.win.document.body;
+      const level = this.getVisibleLevel(state.win);
+      this.removeAllClasses(body);
+      this.setClassToDocumentBody(body, level);
+
+      // like holding to reveal, hover and caret would get around the
+      // passphrase, so they are off while one is set
+      const locked = !!this.settings.passphraseHash;
+      if (this.settings.hoverToReveal && !locked) {
+        body.classList.add(CssClass.RevealOnHover);
+      }
+      if (this.settings.revealUnderCaret && !locked) {
+        body.classList.add(CssClass.RevealUnderCaret);
+      }
+
+      body.classList.add(renderModeClass(this.getRenderMode(level)));
+      body.classList.add(...structureBodyClasses(this.settings.structure));
+      state.names.updateTitle();
+    });
+    this.updateWordReplacements();
+  }
+
+  removeAllClasses(body: HTMLElement) {
+    body.removeClass(
+      CssClass.BlurAll,
+      CssClass.RevealOnHover,
+      CssClass.RevealAll,
+      CssClass.RevealUnderCaret,
+      CssClass.RevealHeadlines,
+      ...RENDER_MODES.map(renderModeClass),
+      ...STRUCTURE_BODY_CLASSES
+    );
+  }
+
+  getRenderMode(level: Level): RenderMode {
+    const overrides = this.settings.renderModeOverrides;
+    return overrides[level] || this.settings.renderMode;
+  }
+
+  getWordReplacementMode(win: Window): RenderMode | undefined {
+    const mode = this.getRenderMode(this.getVisibleLevel(win));
+    return isTextRenderMode(mode) ? mode : undefined;
+  }
+
+  // words only carry replacements while a text render mode is in use, so
+  // editors and reading views are refreshed when a window switches to or
+  // between them
+  updateWordReplacements() {
+    let changed = false;
+    this.windows.forEach((state) => {
+      const previous = state.renderMode;
+      const renderMode = this.getRenderMode(this.getVisibleLevel(state.win));
+      state.renderMode = renderMode;
+      if (
+        previous !== renderMode &&
+        (isTextRenderMode(renderMode) ||
+          (previous && isTextRenderMode(previous)))
+      ) {
+        changed = true;
+      }
+    });
+    if (!changed) {
+      return;
+    }
+    this.app.workspace.updateOptions();
+    this.rerenderReadingViews();
+  }
+
+  setClassToDocumentBody(body: HTMLElement, currentLevel: Level) {
+    switch (currentLevel) {
+      case Level.HideAll:
+        body.classList.add(CssClass.BlurAll);
+        break;
+      case Level.RevealAll:
+        body.classList.add(CssClass.RevealAll);
+        break;
+      case Level.RevealHeadlines:
+        body.classList.add(CssClass.RevealHeadlines);
+        break;
+    }
+  }
+
+  updateBlurLevelEl() {
+    this.windows.forEach((state) => {
+      state.blurLevelStyleEl.textContent = `body {--blurLevel:${this.settings.blurLevel}em};`;
+    });
+  }
+
+  updateCustomSelectorsEl() {
+    const css = customSelectorsCss(this.settings.customSelectors);
+    this.windows.forEach((state) => {
+      state.customSelectorsStyleEl.textContent = css;
+    });
+  }
+
+  // file explorer entries are matched by path, every other place that shows
+  // note names by the name it displays
+  updatePrivateNames() {
+    const previous = Array.from(this.privatePaths).join("\n");
+    this.privatePaths.clear();
+    this.privateNames.clear();
+    this.privacyIndex.privatePaths().forEach((path) => {
+      const f = this.app.vault.getAbstractFileByPath(path);
+      if (f instanceof TFile) {
+        this.privatePaths.add(f.path);
+        this.privateNames.add(f.basename);
+        this.privateNames.add(f.name);
+        this.privateNames.add(f.path);
+        this.privateNames.add(f.path.slice(0, -(f.extension.length + 1)));
+      }
+    });
+    this.updatePrivateDirsEl();
+    this.windows.forEach((state) => state.names.refresh());
+
+    // links and embeds are tagged when they are rendered
+    if (Array.from(this.privatePaths).join("\n") !== previous) {
+      this.privatePathsVersion++;
+      this.app.workspace.updateOptions();
+      this.rerenderReadingViews();
+      this.api.trigger("privacy-changed");
+    }
+  }
+
+  updatePrivateDirsEl() {
+    // folders can only be private through path rules, files are evaluated
+    // individually, so every private entry gets its own selector
+    const paths = this.privacyIndex
+      .privatePaths()
+      .map((path) => `[data-path="${CSS.escape(path)}"]`);
+    const selector = `:is(.nav-folder-title, .nav-file-title):is(${paths.join(", ")})`;
+    const css =
+      paths.length === 0
+        ? ""
+        : `
+
+          ${selector} {filter: var(--privacy-glasses-filter); --privacy-glasses-hidden: 1}
+
+          .privacy-glasses-reveal-on-hover ${selector}:hover {filter: unset; --privacy-glasses-hidden: 0}
+
+          .privacy-glasses-reveal-all ${selector} {filter: unset; --privacy-glasses-hidden: 0}
+
+
+          `;
+    this.windows.forEach((state) => {
+      state.privateDirsStyleEl.textContent = css;
+    });
   }
 }
 
@@ -601,4 +2038,4 @@ const eyeClosedIcon = `<svg xmlns="http://www.w3.org/2000/svg" preserveAspectRat
 const eyeIcon = `<svg xmlns="http://www.w3.org/2000/svg" preserveAspectRatio="xMidYMid meet" viewBox="0 0 256 256"><path fill="currentColor" d="M247.3 124.8c-.3-.8-8.8-19.6-27.6-38.5C194.6 61.3 162.9 48 128 48S61.4 61.3 36.3 86.3C17.5 105.2 9 124 8.7 124.8a7.9 7.9 0 0 0 0 6.4c.3.8 8.8 19.6 27.6 38.5c25.1 25 56.8 38.3 91.7 38.3s66.6-13.3 91.7-38.3c18.8-18.9 27.3-37.7 27.6-38.5a7.9 7.9 0 0 0 0-6.4ZM128 192c-30.8 0-57.7-11.2-79.9-33.3A130.3 130.3 0 0 1 25 128a130.3 130.3 0 0 1 23.1-30.8C70.3 75.2 97.2 64 128 64s57.7 11.2 79.9 33.2A130.3 130.3 0 0 1 231 128c-7.2 13.5-38.6 64-103 64Zm0-112a48 48 0 1 0 48 48a48 48 0 0 0-48-48Zm0 80a32 32 0 1 1 32-32a32.1 32.1 0 0 1-32 32Z"/></svg>`;
 
 // https://icon-sets.iconify.design/ph/eyeglasses/
-const eyeGlasses = `<svg xmlns="http://www.w3.org/2000/svg" preserveAspectRatio="xMidYMid meet" viewBox="0 0 256 256"><path fill="currentColor" d="M200 40a8 8 0 0 0 0 16a16 16 0 0 1 16 16v58.08A44 44 0 0 0 145.68 152h-35.36A44 44 0 0 0 40 130.08V72a16 16 0 0 1 16-16a8 8 0 0 0 0-16a32 32 0 0 0-32 32v92a44 44 0 0 0 87.81 4h32.38a44 44 0 0 0 87.81-4V72a32 32 0 0 0-32-32ZM68 192a28 28 0 1 1 28-28a28 28 0 0 1-28 28Zm120 0a28 28 0 1 1 28-28a28 28 0 0 1-28 28Z"/></svg>`;
\ No newline at end of file
+const eyeGlasses = `<svg xmlns="http://www.w3.org/2000/svg" preserveAspectRatio="xMidYMid meet" viewBox="0 0 256 256"><path fill="currentColor" d="M200 40a8 8 0 0 0 0 16a16 16 0 0 1 16 16v58.08A44 44 0 0 0 145.68 152h-35.36A44 44 0 0 0 40 130.08V72a16 16 0 0 1 16-16a8 8 0 0 0 0-16a32 32 0 0 0-32 32v92a44 44 0 0 0 87.81 4h32.38a44 44 0 0 0 87.81-4V72a32 32 0 0 0-32-32ZM68 192a28 28 0 1 1 28-28a28 28 0 0 1-28 28Zm120 0a28 28 0 1 1 28-28a28 28 0 0 1-28 28Z"/></svg>`;
\ No newline at end of file
@@ -17,6 +17,6 @@ export default {
     exports: "default",
     banner,
   },
-  external: ["obsidian"],
+  external: ["obsidian", "@codemirror/state", "@codemirror/view"],
   plugins: [typescript(), nodeResolve({ browser: true }), commonjs()],
 };
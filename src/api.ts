@@ -0,0 +1,67 @@
+import { EventRef, Events, TAbstractFile, WorkspaceLeaf } from "obsidian";
+import type PrivacyGlassesPlugin from "../main";
+import { Level } from "./constants";
+
+export { Level };
+
+/**
+ * Public API
+ *
+ * Other plugins reach it through
+ * app.plugins.getPlugin("privacy-glasses")?.api. It answers with the same
+ * decisions Privacy Glasses uses for its own panes, so views of other plugins
+ * can hide private content themselves.
+ */
+
+export interface PrivacyStatus {
+  isPrivate: boolean;
+  // e.g. 'Matched rule: private tag "#private"'
+  reason: string;
+}
+
+export class PrivacyGlassesApi extends Events {
+  private plugin: PrivacyGlassesPlugin;
+
+  constructor(plugin: PrivacyGlassesPlugin) {
+    super();
+    this.plugin = plugin;
+  }
+
+  isPrivate(file: TAbstractFile): PrivacyStatus {
+    const decision = this.plugin.getPrivacyDecision(file);
+    return { isPrivate: decision.isPrivate, reason: decision.reason };
+  }
+
+  // whether the content of the file is shown at the current level of the
+  // window. per-pane overrides are not taken into account
+  isRevealed(file: TAbstractFile, win: Window = activeWindow): boolean {
+    return this.plugin.shouldRevealFile(file, this.plugin.getVisibleLevel(win));
+  }
+
+  getLevel(win: Window = activeWindow): Level {
+    return this.plugin.getWindowLevel(win);
+  }
+
+  // resolves to false when a passphrase was required and not entered
+  setLevel(level: Level, win: Window = activeWindow): Promise<boolean> {
+    return this.plugin.setLevel(level, win);
+  }
+
+  // reveals the leaf, or everything when no leaf is given, for the peek
+  // duration set in the settings
+  peek(leaf?: WorkspaceLeaf): Promise<void> {
+    return leaf ? this.plugin.peekLeaf(leaf) : this.plugin.peekAll();
+  }
+
+  on(
+    name: "level-changed",
+    callback: (level: Level, win: Window) => any,
+    ctx?: any
+  ): EventRef;
+  // the set of private files changed, e.g. after editing the rules
+  on(name: "privacy-changed", callback: () => any, ctx?: any): EventRef;
+  on(name: string, callback: (...data: any[]) => any, ctx?: any): EventRef;
+  on(name: string, callback: (...data: any[]) => any, ctx?: any): EventRef {
+    return super.on(name, callback, ctx);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Method patches
+ *
+ * Other plugins patch the same methods. A patch wraps whatever is in place
+ * when it is applied, and removing it only takes out its own layer: when
+ * another patch has wrapped it since, it stays in place and passes every
+ * call straight through.
+ */
+
+type Method = (this: any, ...args: any[]) => any;
+
+// replaces obj[method] with the function createWrapper returns for the
+// method in place. returns a function which removes the patch
+export function around(
+  obj: Record<string, any>,
+  method: string,
+  createWrapper: (next: Method) => Method
+): () => void {
+  const hadOwn = Object.prototype.hasOwnProperty.call(obj, method);
+  const original: Method = obj[method];
+  let current = createWrapper(original);
+  const wrapper: Method = function (...args) {
+    return current.apply(this, args);
+  };
+  obj[method] = wrapper;
+
+  return () => {
+    if (obj[method] !== wrapper) {
+      current = original;
+    } else if (hadOwn) {
+      obj[method] = original;
+    } else {
+      delete obj[method];
+    }
+  };
+}
@@ -0,0 +1,120 @@
+import { TAbstractFile, TFile } from "obsidian";
+import { PrivacyDecision } from "./rules";
+
+/**
+ * Attachment inheritance
+ *
+ * Attachments are often kept in one shared folder, where no path rule can
+ * tell the private ones apart. Instead, an attachment that no rule matches
+ * can take its privacy from the notes linking to it.
+ */
+
+export enum AttachmentInheritance {
+  Off = "off",
+  Any = "any",
+  All = "all"
+}
+
+export const ATTACHMENT_INHERITANCE_NAMES: Record<
+  AttachmentInheritance,
+  string
+> = {
+  [AttachmentInheritance.Off]: "Off",
+  [AttachmentInheritance.Any]: "Private if any linking note is private",
+  [AttachmentInheritance.All]: "Private if all linking notes are private",
+};
+
+export function isAttachment(file: TAbstractFile): file is TFile {
+  return (
+    file instanceof TFile && file.extension !== "md" && file.extension !== "canvas"
+  );
+}
+
+// maps each linked file to the notes linking to it
+export function findReferrers(
+  resolvedLinks: Record<string, Record<string, number>>
+): Map<string, string[]> {
+  const referrers = new Map<string, string[]>();
+  Object.keys(resolvedLinks).forEach((source) => {
+    Object.keys(resolvedLinks[source]).forEach((target) => {
+      const list = referrers.get(target);
+      if (list) {
+        list.push(source);
+      } else {
+        referrers.set(target, [source]);
+      }
+    });
+  });
+  return referrers;
+}
+
+// the notes linking to each file, kept up to date note by note as the
+// metadata cache resolves their links
+export class ReferrerIndex {
+  referrers = new Map<string, string[]>();
+  links = new Map<string, string[]>();
+
+  rebuild(resolvedLinks: Record<string, Record<string, number>>) {
+    this.clear();
+    Object.keys(resolvedLinks).forEach((source) =>
+      this.setLinks(source, Object.keys(resolvedLinks[source]))
+    );
+  }
+
+  clear() {
+    this.referrers.clear();
+    this.links.clear();
+  }
+
+  get(path: string): string[] {
+    return this.referrers.get(path) ?? [];
+  }
+
+  // returns the files whose referrers changed
+  setLinks(source: string, targets: string[]): string[] {
+    const previous = this.links.get(source) ?? [];
+    const removed = previous.filter((t) => !targets.contains(t));
+    const added = targets.filter((t) => !previous.contains(t));
+    removed.forEach((target) => {
+      const list = this.get(target).filter((s) => s !== source);
+      if (list.length > 0) {
+        this.referrers.set(target, list);
+      } else {
+        this.referrers.delete(target);
+      }
+    });
+    added.forEach((target) => {
+      this.referrers.set(target, [...this.get(target), source]);
+    });
+    if (targets.length > 0) {
+      this.links.set(source, targets);
+    } else {
+      this.links.delete(source);
+    }
+    return [...removed, ...added];
+  }
+}
+
+// undefined when nothing links to the attachment, or inheritance is off
+export function inheritPrivacy(
+  mode: AttachmentInheritance,
+  referrers: string[],
+  isPrivate: (path: string) => boolean
+): PrivacyDecision | undefined {
+  if (mode === AttachmentInheritance.Off || referrers.length === 0) {
+    return undefined;
+  }
+  const privateReferrer = referrers.find(isPrivate);
+  if (mode === AttachmentInheritance.Any) {
+    return privateReferrer
+      ? {
+          isPrivate: true,
+          reason: "Linked from private note: " + privateReferrer,
+        }
+      : { isPrivate: false, reason: "Only linked from public notes" };
+  }
+  const publicReferrer = referrers.find((p) => !isPrivate(p));
+  return publicReferrer
+    ? { isPrivate: false, reason: "Linked from public note: " + publicReferrer }
+    : { isPrivate: true, reason: "Only linked from private notes" };
+}
@@ -0,0 +1,146 @@
+import {
+  ItemView,
+  TAbstractFile,
+  TFile,
+  TFolder,
+  WorkspaceLeaf,
+} from "obsidian";
+import type PrivacyGlassesPlugin from "../main";
+import { isAttachment } from "./attachments";
+import { CssClass } from "./constants";
+import {
+  describeRule,
+  PrivacyDecision,
+  PrivacyRule,
+  RuleAction,
+  RuleKind,
+} from "./rules";
+
+/**
+ * Privacy audit
+ *
+ * Lists every private file with the reason it is private, and flags files
+ * whose privacy is probably not what was intended, e.g. a note tagged
+ * private that a later public rule makes public again.
+ */
+
+export const AUDIT_VIEW_TYPE = "privacy-glasses-audit";
+
+export interface AuditEntry {
+  file: TAbstractFile;
+  decision: PrivacyDecision;
+  // every matching rule, in order - the last one decides
+  matches: PrivacyRule[];
+  warnings: string[];
+}
+
+export function findWarnings(
+  file: TAbstractFile,
+  decision: PrivacyDecision,
+  matches: PrivacyRule[],
+  referrers: string[],
+  isPrivate: (file: TAbstractFile) => boolean
+): string[] {
+  const warnings: string[] = [];
+  const privateRule = matches.find((r) => r.action === RuleAction.Private);
+  if (!decision.isPrivate && privateRule && decision.rule) {
+    warnings.push(
+      `Matches ${describeRule(privateRule)}, but the later ${describeRule(
+        decision.rule
+      )} makes it public`
+    );
+  }
+  const parent = file.parent;
+  if (
+    decision.isPrivate &&
+    (decision.rule?.kind === RuleKind.Tag ||
+      decision.rule?.kind === RuleKind.Property) &&
+    parent &&
+    !parent.isRoot() &&
+    !isPrivate(parent)
+  ) {
+    warnings.push(
+      `Private by ${decision.rule.kind}, but its folder "${parent.path}" is public`
+    );
+  }
+  if (
+    !decision.isPrivate &&
+    isAttachment(file) &&
+    referrers.length > 0 &&
+    referrers.every((p) => {
+      const note = file.vault.getAbstractFileByPath(p);
+      return !!note && isPrivate(note);
+    })
+  ) {
+    warnings.push("Public, but only linked from private notes");
+  }
+  return warnings;
+}
+
+export class PrivacyAuditView extends ItemView {
+  plugin: PrivacyGlassesPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: PrivacyGlassesPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType() {
+    return AUDIT_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return "Privacy audit";
+  }
+
+  getIcon() {
+    return "eye-glasses";
+  }
+
+  async onOpen() {
+    this.addAction("refresh-cw", "Refresh", () => this.refresh());
+    this.registerEvent(
+      this.plugin.api.on("privacy-changed", () => this.refresh())
+    );
+    this.refresh();
+  }
+
+  refresh() {
+    const entries = this.plugin.auditVault();
+    const flagged = entries.filter((e) => e.warnings.length > 0);
+    const privateEntries = entries.filter((e) => e.decision.isPrivate);
+
+    const el = this.contentEl;
+    el.empty();
+    el.addClass("privacy-glasses-audit");
+    el.createEl("p", {
+      text: `${privateEntries.length} private file(s), ${flagged.length} to check.`,
+    });
+
+    if (flagged.length > 0) {
+      el.createEl("h4", { text: "To check" });
+      flagged.forEach((e) => this.renderEntry(el, e, e.warnings));
+    }
+    el.createEl("h4", { text: "Private files" });
+    privateEntries.forEach((e) => this.renderEntry(el, e, [e.decision.reason]));
+  }
+
+  renderEntry(el: HTMLElement, entry: AuditEntry, lines: string[]) {
+    const item = el.createDiv({ cls: "privacy-glasses-audit-item" });
+    const path = item.createEl("a", {
+      cls: "privacy-glasses-audit-path",
+      text: entry.file.path + (entry.file instanceof TFolder ? "/" : ""),
+    });
+    // the audit lists private names, which are hidden like everywhere else
+    path.toggleClass(CssClass.PrivateName, entry.decision.isPrivate);
+    if (entry.file instanceof TFile) {
+      const file = entry.file;
+      path.onClickEvent(() =>
+        this.app.workspace.getLeaf(false).openFile(file)
+      );
+    }
+    lines.forEach((line) =>
+      item.createDiv({ cls: "privacy-glasses-audit-reason", text: line })
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Constants
+ */
+
+export enum Level {
+  HideAll = "hide-all",
+  HidePrivate = "hide-private",
+  RevealAll = "reveal-all",
+  RevealHeadlines = "reveal-headlines"
+}
+
+export const LEVEL_NAMES: Record<Level, string> = {
+  [Level.HideAll]: "Hide all",
+  [Level.HidePrivate]: "Hide private",
+  [Level.RevealAll]: "Reveal all",
+  [Level.RevealHeadlines]: "Reveal headlines only",
+};
+
+export const LEVEL_ICONS: Record<Level, string> = {
+  [Level.HideAll]: "eye-closed",
+  [Level.HidePrivate]: "eye-slash",
+  [Level.RevealAll]: "eye",
+  [Level.RevealHeadlines]: "eye-glasses",
+};
+
+// what each level leaves readable. 'Hide private' and 'Reveal headlines
+// only' don't contain each other: one reveals public notes, the other the
+// headings of every note, private ones included
+const LEVEL_REVEALS: Record<Level, string[]> = {
+  [Level.HideAll]: [],
+  [Level.HidePrivate]: ["public headings", "public text"],
+  [Level.RevealHeadlines]: ["public headings", "private headings"],
+  [Level.RevealAll]: [
+    "public headings",
+    "public text",
+    "private headings",
+    "private text",
+  ],
+};
+
+// whether the level reveals anything the other one hides
+export function revealsMore(level: Level, than: Level) {
+  return LEVEL_REVEALS[level].some((r) => !LEVEL_REVEALS[than].contains(r));
+}
+
+export enum CssClass {
+  BlurAll = "privacy-glasses-blur-all",
+  RevealOnHover = "privacy-glasses-reveal-on-hover",
+  RevealAll = "privacy-glasses-reveal-all",
+  RevealUnderCaret = "privacy-glasses-reveal-under-caret",
+  RevealHeadlines = "privacy-glasses-reveal-headlines",
+  Reveal = "privacy-glasses-reveal",
+  IsMdView = "is-md-view",
+  IsNonMdView = "is-non-md-view",
+  IsMdViewHeadlinesOnly = "is-md-view-headlines-only",
+  IsCanvasView = "is-canvas-view",
+  IsPdfView = "is-pdf-view",
+  IsCustomView = "is-custom-view",
+  PrivacyGlassesReveal = "privacy-glasses-reveal",
+  PrivateSection = "privacy-glasses-private-section",
+  PrivateSpan = "privacy-glasses-private-span",
+  Block = "privacy-glasses-block",
+  Heading = "privacy-glasses-heading",
+  Detected = "privacy-glasses-detected",
+  PrivateName = "privacy-glasses-private-name",
+  PrivateLink = "privacy-glasses-private-link",
+  PrivateEmbed = "privacy-glasses-private-embed",
+  PrivateNode = "privacy-glasses-private-node",
+  Word = "privacy-glasses-word",
+  StructureLine = "privacy-glasses-structure",
+  StructureHidden = "privacy-glasses-structure-hidden",
+  StructureHiddenBullet = "privacy-glasses-structure-hidden-bullet"
+}
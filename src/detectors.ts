@@ -0,0 +1,189 @@
+/**
+ * Sensitive data detectors
+ *
+ * Detectors find sensitive values such as email addresses or API keys in any
+ * note, private or not. When a pattern has a capture group, only the first
+ * group is hidden, so 'password: hunter2' keeps its label readable.
+ */
+
+export interface CustomDetector {
+  name: string;
+  pattern: string;
+  enabled: boolean;
+}
+
+export interface CompiledDetector {
+  id: string;
+  name: string;
+  regex: RegExp;
+  validate?: (value: string) => boolean;
+}
+
+export interface DetectorMatch {
+  detector: string;
+  from: number;
+  to: number;
+  text: string;
+}
+
+interface BuiltInDetector {
+  id: string;
+  name: string;
+  pattern: string;
+  flags?: string;
+  validate?: (value: string) => boolean;
+}
+
+function digits(value: string) {
+  return value.replace(/\D/g, "");
+}
+
+function luhn(value: string) {
+  const d = digits(value);
+  let sum = 0;
+  for (let i = 0; i < d.length; i++) {
+    let n = parseInt(d[d.length - 1 - i]);
+    if (i % 2 === 1) {
+      n *= 2;
+      if (n > 9) {
+        n -= 9;
+      }
+    }
+    sum += n;
+  }
+  return sum % 10 === 0;
+}
+
+function ibanChecksum(value: string) {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const c of rearranged) {
+    const n = c >= "A" && c <= "Z" ? String(c.charCodeAt(0) - 55) : c;
+    for (const d of n) {
+      remainder = (remainder * 10 + parseInt(d)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export const BUILT_IN_DETECTORS: BuiltInDetector[] = [
+  {
+    id: "email",
+    name: "Email addresses",
+    pattern: "[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\\.[A-Za-z]{2,}",
+  },
+  {
+    id: "iban",
+    name: "IBANs",
+    pattern: "\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\\b",
+    validate: ibanChecksum,
+  },
+  {
+    id: "credit-card",
+    name: "Credit card numbers",
+    pattern: "\\b\\d(?:[ -]?\\d){12,18}\\b",
+    validate: luhn,
+  },
+  {
+    id: "api-key",
+    name: "API keys and tokens",
+    pattern:
+      "\\b(?:sk-[A-Za-z0-9_-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|AKIA[0-9A-Z]{16}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})|(?:api[_-]?key|access[_-]?token|secret|token)\\s*[:=]\\s*[\"']?([^\\s\"']+)",
+    flags: "i",
+  },
+  {
+    id: "password",
+    name: "Passwords",
+    pattern: "\\b(?:password|passwd|pwd|passcode|pin)\\s*[:=]\\s*(\\S+)",
+    flags: "i",
+  },
+  {
+    id: "phone",
+    name: "Phone numbers",
+    pattern: "(?<![\\w+])\\+?\\(?\\d[\\d ().-]{7,}\\d(?![\\w])",
+    // dates and plain long numbers look like phone numbers as well
+    validate: (v) =>
+      digits(v).length >= 9 &&
+      digits(v).length <= 15 &&
+      !/^\d{4}-\d{2}-\d{2}/.test(v),
+  },
+];
+
+export function isValidPattern(pattern: string) {
+  try {
+    new RegExp(pattern);
+    return pattern !== "";
+  } catch (e) {
+    return false;
+  }
+}
+
+export function compileDetectors(
+  disabledBuiltIns: string[],
+  custom: CustomDetector[]
+): CompiledDetector[] {
+  const compiled: CompiledDetector[] = BUILT_IN_DETECTORS.filter(
+    (d) => !disabledBuiltIns.contains(d.id)
+  ).map((d) => ({
+    id: d.id,
+    name: d.name,
+    regex: new RegExp(d.pattern, "g" + (d.flags ?? "")),
+    validate: d.validate,
+  }));
+  custom.forEach((d, i) => {
+    if (d.enabled && isValidPattern(d.pattern)) {
+      compiled.push({
+        id: "custom-" + i,
+        name: d.name || d.pattern,
+        regex: new RegExp(d.pattern, "g"),
+      });
+    }
+  });
+  return compiled;
+}
+
+// returns non-overlapping matches sorted by position, earlier detectors win
+// when two matches overlap
+export function detectSensitive(
+  text: string,
+  detectors: CompiledDetector[],
+  offset = 0
+): DetectorMatch[] {
+  const matches: DetectorMatch[] = [];
+  for (const d of detectors) {
+    d.regex.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = d.regex.exec(text)) !== null) {
+      if (m[0] === "") {
+        d.regex.lastIndex++;
+        continue;
+      }
+      let value = m[0];
+      let from = m.index;
+      if (m[1] !== undefined) {
+        value = m[1];
+        from = m.index + m[0].lastIndexOf(m[1]);
+      }
+      if (d.validate && !d.validate(value)) {
+        continue;
+      }
+      const to = from + value.length;
+      if (!matches.some((x) => x.from < to && x.to > from)) {
+        matches.push({ detector: d.name, from, to, text: value });
+      }
+    }
+  }
+  return matches
+    .sort((a, b) => a.from - b.from)
+    .map((x) => ({ ...x, from: x.from + offset, to: x.to + offset }));
+}
+
+// keeps a hint of the value so detected items can be listed without
+// revealing them
+export function maskValue(value: string) {
+  if (value.length <= 4) {
+    return "•".repeat(value.length);
+  }
+  return value.slice(0, 2) + "•".repeat(value.length - 4) + value.slice(-2);
+}
@@ -0,0 +1,353 @@
+import { Extension, Range } from "@codemirror/state";
+import {
+  Decoration,
+  DecorationSet,
+  EditorView,
+  ViewPlugin,
+  ViewUpdate,
+} from "@codemirror/view";
+import { editorInfoField } from "obsidian";
+import { CssClass } from "./constants";
+import { CompiledDetector, detectSensitive } from "./detectors";
+import { findLinks } from "./links";
+import {
+  RenderMode,
+  replacementText,
+  WORD_TEXT_ATTR,
+  wordRegExp,
+} from "./render";
+import { findPrivateRanges, PrivateRangeKind } from "./sections";
+import { hiddenStructureRanges, StructureOptions } from "./structure";
+
+const sectionMark = Decoration.mark({ class: CssClass.PrivateSection });
+const spanMark = Decoration.mark({ class: CssClass.PrivateSpan });
+const detectedMark = Decoration.mark({ class: CssClass.Detected });
+const privateLinkMark = Decoration.mark({ class: CssClass.PrivateLink });
+const structureLine = Decoration.line({ class: CssClass.StructureLine });
+const structureHiddenMark = Decoration.mark({
+  class: CssClass.StructureHidden,
+});
+
+// marks private sections and spans in live preview and source mode. whether
+// they are blurred or revealed is left to the stylesheet, so switching levels
+// does not need to touch the editors
+export function privateSectionsExtension(
+  getMarker: () => string
+): Extension {
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+      marker: string;
+
+      constructor(view: EditorView) {
+        this.marker = getMarker();
+        this.decorations = this.build(view);
+      }
+
+      update(update: ViewUpdate) {
+        const marker = getMarker();
+        if (update.docChanged || marker !== this.marker) {
+          this.marker = marker;
+          this.decorations = this.build(update.view);
+        }
+      }
+
+      build(view: EditorView): DecorationSet {
+        const ranges = findPrivateRanges(
+          view.state.doc.toString(),
+          this.marker
+        );
+        return Decoration.set(
+          ranges.map((r) =>
+            (r.kind === PrivateRangeKind.Section ? sectionMark : spanMark).range(
+              r.from,
+              r.to
+            )
+          ),
+          true
+        );
+      }
+    },
+    {
+      decorations: (v) => v.decorations,
+    }
+  );
+}
+
+// marks detected sensitive values. only the visible part of the document is
+// scanned, the detectors are regular expressions and notes can be long
+export function sensitiveDataExtension(
+  getDetectors: () => CompiledDetector[]
+): Extension {
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+      detectors: CompiledDetector[];
+
+      constructor(view: EditorView) {
+        this.detectors = getDetectors();
+        this.decorations = this.build(view);
+      }
+
+      update(update: ViewUpdate) {
+        const detectors = getDetectors();
+        if (
+          update.docChanged ||
+          update.viewportChanged ||
+          detectors !== this.detectors
+        ) {
+          this.detectors = detectors;
+          this.decorations = this.build(update.view);
+        }
+      }
+
+      build(view: EditorView): DecorationSet {
+        const marks: Range<Decoration>[] = [];
+        view.visibleRanges.forEach(({ from, to }) => {
+          detectSensitive(
+            view.state.doc.sliceString(from, to),
+            this.detectors,
+            from
+          ).forEach((m) => marks.push(detectedMark.range(m.from, m.to)));
+        });
+        return Decoration.set(marks, true);
+      }
+    },
+    {
+      decorations: (v) => v.decorations,
+    }
+  );
+}
+
+function sourcePathOf(view: EditorView) {
+  return view.state.field(editorInfoField, false)?.file?.path ?? "";
+}
+
+// tags the embeds inside root, including root itself, whose target is
+// private, like tagPrivateLinks does in reading view. embeds inside embeds
+// and inside nested editors belong to another note and are left to it
+function tagPrivateEmbeds(
+  view: EditorView,
+  root: HTMLElement,
+  isPrivateLink: (link: string, sourcePath: string) => boolean
+) {
+  const content = view.contentDOM;
+  const sourcePath = sourcePathOf(view);
+  const embeds = Array.from(
+    root.querySelectorAll<HTMLElement>(".internal-embed[src]")
+  );
+  if (root.matches(".internal-embed[src]")) {
+    embeds.push(root);
+  }
+  embeds
+    .filter((e) => {
+      const outer = e.parentElement?.closest(".internal-embed");
+      return (
+        e.closest(".cm-content") === content &&
+        !(outer && content.contains(outer))
+      );
+    })
+    .forEach((e) =>
+      e.toggleClass(
+        CssClass.PrivateEmbed,
+        isPrivateLink(e.getAttr("src") ?? "", sourcePath)
+      )
+    );
+}
+
+// marks links whose target is private, and tags embeds whose target is
+// private. live preview renders embeds as widgets, which marks don't reach,
+// so they are tagged in the DOM as the editor adds them. the editor itself
+// is tagged when its note is private, which hides it while it is shown
+// inside an embed or a hover popover of another note. getVersion changes
+// whenever the set of private notes does
+export function privateLinksExtension(
+  isPrivateLink: (link: string, sourcePath: string) => boolean,
+  isPrivatePath: (path: string) => boolean,
+  getVersion: () => number
+): Extension {
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+      version: number;
+      observer: MutationObserver;
+
+      constructor(view: EditorView) {
+        this.version = getVersion();
+        this.decorations = this.build(view);
+        tagPrivateEmbeds(view, view.contentDOM, isPrivateLink);
+        this.observer = new MutationObserver((mutations) =>
+          mutations.forEach((m) =>
+            m.addedNodes.forEach((node) => {
+              if (node.nodeType === Node.ELEMENT_NODE) {
+                tagPrivateEmbeds(view, node as HTMLElement, isPrivateLink);
+              }
+            })
+          )
+        );
+        this.observer.observe(view.contentDOM, {
+          childList: true,
+          subtree: true,
+        });
+      }
+
+      destroy() {
+        this.observer.disconnect();
+      }
+
+      update(update: ViewUpdate) {
+        const version = getVersion();
+        if (
+          update.docChanged ||
+          update.viewportChanged ||
+          version !== this.version
+        ) {
+          if (version !== this.version) {
+            tagPrivateEmbeds(update.view, update.view.contentDOM, isPrivateLink);
+          }
+          this.version = version;
+          this.decorations = this.build(update.view);
+        }
+      }
+
+      build(view: EditorView): DecorationSet {
+        const sourcePath = sourcePathOf(view);
+        view.dom.toggleClass(CssClass.PrivateEmbed, isPrivatePath(sourcePath));
+        const marks: Range<Decoration>[] = [];
+        view.visibleRanges.forEach(({ from, to }) => {
+          findLinks(view.state.doc.sliceString(from, to), from)
+            .filter((l) => isPrivateLink(l.link, sourcePath))
+            .forEach((l) => marks.push(privateLinkMark.range(l.from, l.to)));
+        });
+        return Decoration.set(marks, true);
+      }
+    },
+    {
+      decorations: (v) => v.decorations,
+    }
+  );
+}
+
+// attaches the scrambled or decoy replacement to every visible word. the
+// replacement is only drawn by the stylesheet while the word is hidden. the
+// mode depends on the editor's window, as windows can have their own level
+export function wordReplacementExtension(
+  getMode: (view: EditorView) => RenderMode | undefined
+): Extension {
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+      mode: RenderMode | undefined;
+
+      constructor(view: EditorView) {
+        this.mode = getMode(view);
+        this.decorations = this.build(view);
+      }
+
+      update(update: ViewUpdate) {
+        const mode = getMode(update.view);
+        if (update.docChanged || update.viewportChanged || mode !== this.mode) {
+          this.mode = mode;
+          this.decorations = this.build(update.view);
+        }
+      }
+
+      build(view: EditorView): DecorationSet {
+        const mode = this.mode;
+        if (!mode) {
+          return Decoration.none;
+        }
+        const marks: Range<Decoration>[] = [];
+        view.visibleRanges.forEach(({ from, to }) => {
+          const text = view.state.doc.sliceString(from, to);
+          const re = wordRegExp();
+          let m: RegExpExecArray | null;
+          while ((m = re.exec(text)) !== null) {
+            marks.push(
+              Decoration.mark({
+                class: CssClass.Word,
+                attributes: { [WORD_TEXT_ATTR]: replacementText(m[0], mode) },
+              }).range(from + m.index, from + m.index + m[0].length)
+            );
+          }
+        });
+        return Decoration.set(marks);
+      }
+    },
+    {
+      decorations: (v) => v.decorations,
+    }
+  );
+}
+
+// marks the lines whose structure stays readable in 'Reveal headlines only'
+// and the parts of them which don't. like private sections, the marks are
+// always there and only take effect through the stylesheet. has to come
+// after wordReplacementExtension, so the hidden parts wrap their words.
+// getVersion changes whenever the set of private notes does, see
+// privateLinksExtension
+export function structureExtension(
+  getOptions: () => StructureOptions,
+  isPrivateLink: (link: string, sourcePath: string) => boolean,
+  getVersion: () => number
+): Extension {
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+      options: StructureOptions;
+      version: number;
+
+      constructor(view: EditorView) {
+        this.options = getOptions();
+        this.version = getVersion();
+        this.decorations = this.build(view);
+      }
+
+      update(update: ViewUpdate) {
+        const options = getOptions();
+        const version = getVersion();
+        if (
+          update.docChanged ||
+          update.viewportChanged ||
+          options !== this.options ||
+          version !== this.version
+        ) {
+          this.options = options;
+          this.version = version;
+          this.decorations = this.build(update.view);
+        }
+      }
+
+      build(view: EditorView): DecorationSet {
+        const doc = view.state.doc;
+        const sourcePath = sourcePathOf(view);
+        const isPrivate = (link: string) => isPrivateLink(link, sourcePath);
+        const marks: Range<Decoration>[] = [];
+        view.visibleRanges.forEach(({ from, to }) => {
+          for (let pos = from; pos <= to; ) {
+            const line = doc.lineAt(pos);
+            const next =
+              line.number < doc.lines ? doc.line(line.number + 1).text : undefined;
+            const hidden = hiddenStructureRanges(
+              line.text,
+              next,
+              this.options,
+              isPrivate
+            );
+            if (hidden) {
+              marks.push(structureLine.range(line.from));
+              hidden.forEach(([a, b]) =>
+                marks.push(structureHiddenMark.range(line.from + a, line.from + b))
+              );
+            }
+            pos = line.to + 1;
+          }
+        });
+        return Decoration.set(marks, true);
+      }
+    },
+    {
+      decorations: (v) => v.decorations,
+    }
+  );
+}
@@ -0,0 +1,115 @@
+/**
+ * Clipboard and export guard
+ *
+ * Hiding is only visual, the text of a blurred note can still be selected,
+ * copied and dragged away. The editor only renders the lines in view, so a
+ * selection in a note is judged by the note's privacy and its private ranges.
+ * Anywhere else, the stylesheet sets --privacy-glasses-hidden to 1 on
+ * everything it hides and back to 0 on everything it reveals, so the computed
+ * value tells whether the user can see what they are about to take.
+ */
+
+export enum ClipboardGuard {
+  Off = "off",
+  Confirm = "confirm",
+  Block = "block"
+}
+
+export const CLIPBOARD_GUARD_NAMES: Record<ClipboardGuard, string> = {
+  [ClipboardGuard.Off]: "Off",
+  [ClipboardGuard.Confirm]: "Ask for confirmation",
+  [ClipboardGuard.Block]: "Block",
+};
+
+// the pdf export renders the note outside of its pane, where nothing is
+// hidden
+export const EXPORT_PDF_COMMAND = "workspace:export-pdf";
+
+// the elements the stylesheet can hide. only these are read, computing the
+// style of every element in a large selection is slow
+export const HIDEABLE_SELECTOR = [
+  "[class*='privacy-glasses-']",
+  ".workspace-leaf-content",
+  ".workspace-leaf-content :is(.inline-title, .view-header-title-container, .cm-line, .cm-callout, .cm-table-widget, .canvas-node, .page, .thumbnail)",
+  ":is(.media-embed, .image-container) :is(img, video, svg, canvas)",
+  ".workspace-tab-header-inner-title",
+  "#quick-explorer",
+  ".nav-folder-title",
+  ".nav-file-title",
+].join(", ");
+
+export interface OffsetRange {
+  from: number;
+  to: number;
+}
+
+// an empty selection stands for its whole line, which the editor copies
+export function overlapsAny(selections: OffsetRange[], hidden: OffsetRange[]) {
+  return selections.some((s) =>
+    hidden.some((h) => h.from < s.to && h.to > s.from)
+  );
+}
+
+export function isHiddenElement(el: Element) {
+  const hidden = el.win
+    .getComputedStyle(el)
+    .getPropertyValue("--privacy-glasses-hidden");
+  return hidden.trim() === "1";
+}
+
+function elementOf(node: Node): Element | null {
+  return node.nodeType === Node.ELEMENT_NODE
+    ? (node as Element)
+    : node.parentElement;
+}
+
+// the custom selectors are hideable as well, they are passed in 'selector'
+export function isRangeHidden(range: Range, selector: string) {
+  const root = elementOf(range.commonAncestorContainer);
+  if (!root) {
+    return false;
+  }
+  if (isHiddenElement(root)) {
+    return true;
+  }
+  return Array.from(root.querySelectorAll(selector)).some(
+    (el) => range.intersectsNode(el) && isHiddenElement(el)
+  );
+}
+
+export function isSelectionHidden(
+  selection: Selection | null,
+  selector: string
+) {
+  if (!selection) {
+    return false;
+  }
+  for (let i = 0; i < selection.rangeCount; i++) {
+    if (isRangeHidden(selection.getRangeAt(i), selector)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// selected text is dragged from a text node, anything else from an element
+// a dragged file explorer item is hidden when its title is
+export function isDragHidden(
+  target: EventTarget | null,
+  selection: Selection | null,
+  selector: string
+) {
+  if (!(target as Node | null)?.nodeType) {
+    return false;
+  }
+  const node = target as Node;
+  if (node.nodeType === Node.TEXT_NODE) {
+    return isSelectionHidden(selection, selector);
+  }
+  const el = elementOf(node);
+  return (
+    !!el &&
+    (isHiddenElement(el) ||
+      Array.from(el.querySelectorAll(selector)).some(isHiddenElement))
+  );
+}
@@ -0,0 +1,64 @@
+import { Level, revealsMore } from "./constants";
+
+/**
+ * Idle policy
+ *
+ * The longer nobody uses Obsidian, the more gets hidden: every step of the
+ * ladder switches to its level once the idle time reaches its seconds, e.g.
+ * 'Hide private' after 30 seconds and 'Hide all' after 2 minutes. Steps
+ * only ever hide more, they never reveal anything: a step is skipped when
+ * the current level already hides something its level would reveal.
+ */
+
+// 'Reveal headlines only' shows the headings of private notes, so it is no
+// step level
+export const IDLE_STEP_LEVELS = [Level.HidePrivate, Level.HideAll];
+
+export interface IdleStep {
+  seconds: number;
+  level: Level;
+}
+
+// a longer gap between two ticks of the once a second interval means the
+// computer was asleep. background windows are throttled to a tick a minute
+export const SLEEP_GAP_SECONDS = 90;
+
+// hides everything the other level hides, and more
+export function isMoreRestrictive(level: Level, than: Level) {
+  return !revealsMore(level, than) && revealsMore(than, level);
+}
+
+// the most restrictive level of the steps that are due
+export function dueIdleLevel(
+  steps: IdleStep[],
+  idleSeconds: number
+): Level | undefined {
+  let due: Level | undefined;
+  steps.forEach((s) => {
+    if (
+      IDLE_STEP_LEVELS.contains(s.level) &&
+      s.seconds >= 0 &&
+      s.seconds <= idleSeconds &&
+      (!due || isMoreRestrictive(s.level, due))
+    ) {
+      due = s.level;
+    }
+  });
+  return due;
+}
+
+// the next step that will hide more than is hidden now
+export function nextIdleStep(
+  steps: IdleStep[],
+  idleSeconds: number,
+  hidesMore: (level: Level) => boolean
+): IdleStep | undefined {
+  return steps
+    .filter(
+      (s) =>
+        IDLE_STEP_LEVELS.contains(s.level) &&
+        s.seconds > idleSeconds &&
+        hidesMore(s.level)
+    )
+    .sort((a, b) => a.seconds - b.seconds)[0];
+}
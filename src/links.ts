@@ -0,0 +1,56 @@
+/**
+ * Links and embeds
+ *
+ * Embeds, hover previews and link texts show parts of the note they point to,
+ * so they are hidden according to the privacy of the target rather than of
+ * the note that contains them. Links are found on the raw markdown text for
+ * the editor; reading view has them as elements already.
+ */
+
+export interface LinkRange {
+  from: number;
+  to: number;
+  // link path without a heading or block reference, e.g. 'folder/note'
+  link: string;
+}
+
+const WIKILINK = /!?\[\[([^\[\]|#^]*)[^\[\]]*\]\]/g;
+const MARKDOWN_LINK = /!?\[[^\[\]]*\]\(<?([^()\s<>]+)>?\)/g;
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+function decodeLink(link: string) {
+  try {
+    return decodeURI(link);
+  } catch (e) {
+    return link;
+  }
+}
+
+// finds wikilinks and markdown links to notes, with or without '!'. links to
+// headings of the same note and external urls are left out
+export function findLinks(text: string, offset = 0): LinkRange[] {
+  const links: LinkRange[] = [];
+  let m: RegExpExecArray | null;
+  WIKILINK.lastIndex = 0;
+  while ((m = WIKILINK.exec(text)) !== null) {
+    if (m[1].trim() !== "") {
+      links.push({
+        from: offset + m.index,
+        to: offset + m.index + m[0].length,
+        link: m[1].trim(),
+      });
+    }
+  }
+  MARKDOWN_LINK.lastIndex = 0;
+  while ((m = MARKDOWN_LINK.exec(text)) !== null) {
+    const target = m[1].split("#")[0];
+    if (target !== "" && !URL_SCHEME.test(target)) {
+      links.push({
+        from: offset + m.index,
+        to: offset + m.index + m[0].length,
+        link: decodeLink(target),
+      });
+    }
+  }
+  return links.sort((a, b) => a.from - b.from);
+}
@@ -0,0 +1,152 @@
+import { App, TAbstractFile, TFile } from "obsidian";
+import {
+  newRule,
+  normalizePattern,
+  PrivacyRule,
+  RuleAction,
+  RuleKind,
+} from "./rules";
+
+/**
+ * Making files private or public
+ *
+ * "Make private" and "Make public" change what the chosen strategy relies
+ * on: a frontmatter property, a tag in the frontmatter, or a path rule.
+ * Folders, and files other than notes, always get a path rule. A marker
+ * only takes effect through a rule, so the matching private rule is added
+ * when there is none. When the marker alone does not decide, e.g. a tag in
+ * the body keeps the note private, a path rule is added as well.
+ */
+
+export enum MarkStrategy {
+  Property = "property",
+  Tag = "tag",
+  Path = "path"
+}
+
+export const MARK_STRATEGY_NAMES: Record<MarkStrategy, string> = {
+  [MarkStrategy.Property]: "Frontmatter property",
+  [MarkStrategy.Tag]: "Tag",
+  [MarkStrategy.Path]: "Path rule",
+};
+
+export function usesFrontmatter(
+  strategy: MarkStrategy,
+  file: TAbstractFile
+): file is TFile {
+  return (
+    strategy !== MarkStrategy.Path &&
+    file instanceof TFile &&
+    file.extension === "md"
+  );
+}
+
+const METADATA_TIMEOUT_MS = 2000;
+
+function normalizeTag(tag: string) {
+  return tag.trim().replace(/^#/, "").toLowerCase();
+}
+
+// returns true when the rule had to be added
+export function ensurePrivateRule(
+  rules: PrivacyRule[],
+  kind: RuleKind,
+  pattern: string
+): boolean {
+  const p = kind === RuleKind.Tag ? normalizeTag(pattern) : pattern.trim();
+  const exists = rules.some(
+    (r) =>
+      r.enabled &&
+      r.action === RuleAction.Private &&
+      r.kind === kind &&
+      r.value.trim() === "" &&
+      (kind === RuleKind.Tag ? normalizeTag(r.pattern) : r.pattern.trim()) === p
+  );
+  if (!exists) {
+    rules.push({ ...newRule(kind), pattern: pattern.trim() });
+  }
+  return !exists;
+}
+
+// removes the path rules for exactly this path which decide the other way,
+// then adds a rule when the remaining ones still do
+export function setPathRule(
+  rules: PrivacyRule[],
+  path: string,
+  makePrivate: boolean,
+  isPrivate: () => boolean
+) {
+  const action = makePrivate ? RuleAction.Private : RuleAction.Public;
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const r = rules[i];
+    if (
+      r.kind === RuleKind.Path &&
+      r.action !== action &&
+      normalizePattern(r.pattern) === path
+    ) {
+      rules.splice(i, 1);
+    }
+  }
+  if (isPrivate() !== makePrivate) {
+    rules.push({ ...newRule(RuleKind.Path, action), pattern: path });
+  }
+}
+
+function frontmatterTags(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((t) => String(t));
+  }
+  if (typeof value === "string") {
+    return value.split(/[,\s]+/).filter((t) => t !== "");
+  }
+  return [];
+}
+
+// resolves once the metadata cache has read the file again, or after a
+// while when it did not change
+export function metadataChanged(app: App, file: TFile): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      app.metadataCache.offref(ref);
+      window.clearTimeout(timer);
+      resolve();
+    };
+    const ref = app.metadataCache.on("changed", (changed) => {
+      if (changed.path === file.path) {
+        done();
+      }
+    });
+    const timer = window.setTimeout(done, METADATA_TIMEOUT_MS);
+  });
+}
+
+export async function setFrontmatterMarker(
+  app: App,
+  file: TFile,
+  strategy: MarkStrategy,
+  marker: string,
+  makePrivate: boolean
+) {
+  await app.fileManager.processFrontMatter(file, (frontmatter) => {
+    if (strategy === MarkStrategy.Property) {
+      if (makePrivate) {
+        frontmatter[marker.trim()] = true;
+      } else {
+        delete frontmatter[marker.trim()];
+      }
+      return;
+    }
+    const tag = normalizeTag(marker);
+    const tags = frontmatterTags(frontmatter.tags).filter(
+      (t) => normalizeTag(t) !== tag
+    );
+    if (makePrivate) {
+      tags.push(marker.trim().replace(/^#/, ""));
+    }
+    if (tags.length > 0) {
+      frontmatter.tags = tags;
+    } else {
+      delete frontmatter.tags;
+    }
+  });
+}
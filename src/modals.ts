@@ -0,0 +1,221 @@
+import { App, FuzzySuggestModal, Modal, TFile } from "obsidian";
+import { AuditEntry } from "./audit";
+import { DetectorMatch, maskValue } from "./detectors";
+import { PrivacyProfile } from "./profiles";
+import { describeRule } from "./rules";
+
+export interface DetectedItem extends DetectorMatch {
+  line: number;
+}
+
+export class DetectedItemsModal extends Modal {
+  items: DetectedItem[];
+  onChoose: (item: DetectedItem) => void;
+
+  constructor(
+    app: App,
+    items: DetectedItem[],
+    onChoose: (item: DetectedItem) => void
+  ) {
+    super(app);
+    this.items = items;
+    this.onChoose = onChoose;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: "Detected sensitive data" });
+    contentEl.createEl("p", {
+      text: `${this.items.length} item(s) found. Values are masked, click an item to jump to it.`,
+    });
+    const list = contentEl.createEl("ul", {
+      cls: "privacy-glasses-detected-list",
+    });
+    this.items.forEach((item) => {
+      const li = list.createEl("li");
+      li.createEl("a", {
+        text: `Line ${item.line + 1}: ${item.detector}`,
+      }).onClickEvent(() => {
+        this.close();
+        this.onChoose(item);
+      });
+      li.createSpan({ text: " " + maskValue(item.text) });
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export class PassphraseModal extends Modal {
+  verify: (input: string) => Promise<string | undefined>;
+  onResult: (unlocked: boolean) => void;
+  unlocked = false;
+
+  // verify resolves to an error message, or undefined when the passphrase
+  // is correct
+  constructor(
+    app: App,
+    verify: (input: string) => Promise<string | undefined>,
+    onResult: (unlocked: boolean) => void
+  ) {
+    super(app);
+    this.verify = verify;
+    this.onResult = onResult;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: "Privacy Glasses passphrase" });
+    const form = contentEl.createEl("form");
+    const input = form.createEl("input", {
+      type: "password",
+      attr: { placeholder: "Passphrase", autocomplete: "off" },
+    });
+    const error = form.createDiv({ cls: "privacy-glasses-passphrase-error" });
+    form.createEl("button", { text: "Unlock", attr: { type: "submit" } });
+    form.addEventListener("submit", async (e) => {
+      e.preventDefault();
+      const message = await this.verify(input.value);
+      input.value = "";
+      if (message === undefined) {
+        this.unlocked = true;
+        this.close();
+      } else {
+        error.setText(message);
+      }
+    });
+    input.focus();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onResult(this.unlocked);
+  }
+}
+
+export class ProfileSuggestModal extends FuzzySuggestModal<PrivacyProfile> {
+  profiles: PrivacyProfile[];
+  onChoose: (profile: PrivacyProfile) => void;
+
+  constructor(
+    app: App,
+    profiles: PrivacyProfile[],
+    onChoose: (profile: PrivacyProfile) => void
+  ) {
+    super(app);
+    this.profiles = profiles;
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a Privacy Glasses profile");
+  }
+
+  getItems() {
+    return this.profiles;
+  }
+
+  getItemText(profile: PrivacyProfile) {
+    return profile.name;
+  }
+
+  onChooseItem(profile: PrivacyProfile) {
+    this.onChoose(profile);
+  }
+}
+
+export class ConfigurationSuggestModal extends FuzzySuggestModal<TFile> {
+  onChoose: (file: TFile) => void;
+
+  constructor(app: App, onChoose: (file: TFile) => void) {
+    super(app);
+    this.onChoose = onChoose;
+    this.setPlaceholder("Choose a Privacy Glasses configuration to import");
+  }
+
+  getItems() {
+    return this.app.vault.getFiles().filter((f) => f.extension === "json");
+  }
+
+  getItemText(file: TFile) {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile) {
+    this.onChoose(file);
+  }
+}
+
+export class PrivacyExplanationModal extends Modal {
+  entry: AuditEntry;
+
+  constructor(app: App, entry: AuditEntry) {
+    super(app);
+    this.entry = entry;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const { decision, matches, warnings } = this.entry;
+    contentEl.createEl("h3", {
+      text: `${this.entry.file.name} is ${decision.isPrivate ? "private" : "public"}`,
+    });
+    contentEl.createEl("p", { text: decision.reason });
+    if (matches.length > 0) {
+      contentEl.createEl("p", {
+        text: "Matching rules, from top to bottom. The last one decides:",
+      });
+      const list = contentEl.createEl("ol");
+      matches.forEach((rule) => list.createEl("li", { text: describeRule(rule) }));
+    }
+    if (warnings.length > 0) {
+      const list = contentEl.createEl("ul", {
+        cls: "privacy-glasses-audit-warnings",
+      });
+      warnings.forEach((w) => list.createEl("li", { text: w }));
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
+
+export class ConfirmModal extends Modal {
+  title: string;
+  message: string;
+  onResult: (confirmed: boolean) => void;
+  confirmed = false;
+
+  constructor(
+    app: App,
+    title: string,
+    message: string,
+    onResult: (confirmed: boolean) => void
+  ) {
+    super(app);
+    this.title = title;
+    this.message = message;
+    this.onResult = onResult;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.createEl("h3", { text: this.title });
+    contentEl.createEl("p", { text: this.message });
+    const buttons = contentEl.createDiv({ cls: "modal-button-container" });
+    buttons
+      .createEl("button", { text: "Continue", cls: "mod-warning" })
+      .onClickEvent(() => {
+        this.confirmed = true;
+        this.close();
+      });
+    buttons
+      .createEl("button", { text: "Cancel" })
+      .onClickEvent(() => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.onResult(this.confirmed);
+  }
+}
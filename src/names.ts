@@ -0,0 +1,142 @@
+import { CssClass } from "./constants";
+
+/**
+ * Private note names
+ *
+ * Note names show up in many places that are not part of a note's pane: the
+ * quick switcher, search results, backlinks, bookmarks and the window title.
+ * None of them say which file an entry belongs to, so entries are recognized
+ * by the note name they display. Marked entries are hidden by the stylesheet,
+ * which reveals them again in 'Reveal all'.
+ */
+
+// the graph draws its labels on a canvas, single nodes can't be hidden
+export const GRAPH_VIEW_TYPES = ["graph", "localgraph"];
+
+const TITLE_REPLACEMENT = "Private note";
+
+// each entry is hidden as a whole, a search result hides its matches as well.
+// file explorer entries have a data-path and are handled by the stylesheet
+const SURFACES: { item: string; name: string }[] = [
+  { item: ".suggestion-item", name: ".suggestion-title" },
+  { item: ".search-result", name: ".search-result-file-title" },
+  {
+    item: ".tree-item-self:not(.search-result-file-title, .nav-file-title, .nav-folder-title)",
+    name: ".tree-item-inner",
+  },
+];
+
+// the content of notes has no entries, and changes with every keystroke
+const NOTE_CONTENT = ".cm-content, .markdown-preview-section";
+
+// replaces a private note name at the start of a title such as
+// 'Note - Vault - Obsidian'. note names may contain ' - ' themselves
+export function hideNameInTitle(
+  title: string,
+  isPrivateName: (name: string) => boolean
+): string {
+  if (isPrivateName(title)) {
+    return TITLE_REPLACEMENT;
+  }
+  let i = title.indexOf(" - ");
+  while (i !== -1) {
+    if (isPrivateName(title.slice(0, i))) {
+      return TITLE_REPLACEMENT + title.slice(i);
+    }
+    i = title.indexOf(" - ", i + 1);
+  }
+  return title;
+}
+
+export class PrivateNameObserver {
+  doc: Document;
+  isPrivateName: (name: string) => boolean;
+  isRevealed: () => boolean;
+  observer: MutationObserver;
+  titleObserver: MutationObserver;
+  // the title as set by Obsidian, and as shown after hiding the name
+  realTitle: string;
+  shownTitle: string;
+
+  constructor(
+    doc: Document,
+    isPrivateName: (name: string) => boolean,
+    isRevealed: () => boolean
+  ) {
+    this.doc = doc;
+    this.isPrivateName = isPrivateName;
+    this.isRevealed = isRevealed;
+    this.realTitle = this.shownTitle = doc.title;
+
+    this.observer = new MutationObserver((mutations) => {
+      const added = new Set<Element>();
+      mutations.forEach((m) => {
+        const target =
+          m.target.nodeType === Node.ELEMENT_NODE
+            ? (m.target as Element)
+            : m.target.parentElement;
+        if (!target || target.closest(NOTE_CONTENT)) {
+          return;
+        }
+        m.addedNodes.forEach((node) => {
+          const el = node instanceof Element ? node : node.parentElement;
+          if (el) {
+            added.add(el);
+          }
+        });
+      });
+      added.forEach((el) => this.mark(el));
+    });
+    this.observer.observe(doc.body, { childList: true, subtree: true });
+
+    this.titleObserver = new MutationObserver(() => this.updateTitle());
+    this.titleObserver.observe(doc.head, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+    });
+  }
+
+  // marks the entries inside el and the entry el belongs to
+  mark(el: Element) {
+    SURFACES.forEach((s) => {
+      const item = el.closest(s.item);
+      if (item) {
+        this.markItem(item, s.name);
+      }
+      el.querySelectorAll(s.item).forEach((i) => this.markItem(i, s.name));
+    });
+  }
+
+  markItem(item: Element, nameSelector: string) {
+    const nameEl = item.matches(nameSelector)
+      ? item
+      : item.querySelector(nameSelector);
+    const name = nameEl?.textContent?.trim() ?? "";
+    item.toggleClass(CssClass.PrivateName, this.isPrivateName(name));
+  }
+
+  updateTitle() {
+    const title = this.doc.title;
+    if (title !== this.shownTitle) {
+      this.realTitle = title;
+    }
+    this.shownTitle = this.isRevealed()
+      ? this.realTitle
+      : hideNameInTitle(this.realTitle, this.isPrivateName);
+    if (title !== this.shownTitle) {
+      this.doc.title = this.shownTitle;
+    }
+  }
+
+  refresh() {
+    this.mark(this.doc.body);
+    this.updateTitle();
+  }
+
+  disconnect() {
+    this.observer.disconnect();
+    this.titleObserver.disconnect();
+    this.doc.title = this.realTitle;
+  }
+}
@@ -0,0 +1,76 @@
+import { WorkspaceLeaf } from "obsidian";
+import { around } from "./around";
+
+/**
+ * Per-pane overrides
+ *
+ * A pane can ignore the global level and always hide or always reveal its
+ * content. The override is kept with the leaf, not the view, so it survives
+ * opening other files in the pane, and it is stored in the leaf's view state
+ * so it survives restarts and layout changes.
+ */
+
+export enum LeafOverride {
+  FollowGlobal = "follow-global",
+  AlwaysHide = "always-hide",
+  AlwaysReveal = "always-reveal"
+}
+
+export const LEAF_OVERRIDE_NAMES: Record<LeafOverride, string> = {
+  [LeafOverride.FollowGlobal]: "Follow global level",
+  [LeafOverride.AlwaysHide]: "Always hide this pane",
+  [LeafOverride.AlwaysReveal]: "Always reveal this pane",
+};
+
+export const LEAF_OVERRIDE_ICONS: Record<LeafOverride, string> = {
+  [LeafOverride.FollowGlobal]: "eye-glasses",
+  [LeafOverride.AlwaysHide]: "eye-closed",
+  [LeafOverride.AlwaysReveal]: "eye",
+};
+
+const STATE_KEY = "privacyGlassesOverride";
+
+function isLeafOverride(x: unknown): x is LeafOverride {
+  return (
+    x === LeafOverride.FollowGlobal ||
+    x === LeafOverride.AlwaysHide ||
+    x === LeafOverride.AlwaysReveal
+  );
+}
+
+// the layout is saved through getViewState and restored through
+// setViewState, so both are wrapped to carry the override along with the
+// view's own state. returns a function which removes the wrappers, other
+// plugins may have wrapped the same methods on top of them
+export function hookLeafViewState(
+  getOverride: (leaf: WorkspaceLeaf) => LeafOverride,
+  setOverride: (leaf: WorkspaceLeaf, override: LeafOverride) => void
+): () => void {
+  const proto = WorkspaceLeaf.prototype as any;
+
+  const removeGet = around(proto, "getViewState", (next) =>
+    function (this: WorkspaceLeaf, ...args) {
+      const viewState = next.apply(this, args);
+      const override = getOverride(this);
+      if (override !== LeafOverride.FollowGlobal) {
+        viewState.state = { ...viewState.state, [STATE_KEY]: override };
+      }
+      return viewState;
+    }
+  );
+
+  const removeSet = around(proto, "setViewState", (next) =>
+    function (this: WorkspaceLeaf, viewState: any, ...args) {
+      const override = viewState?.state?.[STATE_KEY];
+      if (isLeafOverride(override)) {
+        setOverride(this, override);
+      }
+      return next.call(this, viewState, ...args);
+    }
+  );
+
+  return () => {
+    removeGet();
+    removeSet();
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Passphrase
+ *
+ * Only a salted PBKDF2 hash of the passphrase is stored in the settings.
+ * After MAX_FAILED_ATTEMPTS wrong guesses the prompt locks for
+ * LOCKOUT_SECONDS, and the lockout survives restarting Obsidian.
+ */
+
+export const MAX_FAILED_ATTEMPTS = 5;
+export const LOCKOUT_SECONDS = 60;
+const ITERATIONS = 100000;
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes)
+    .map((b) => ("0" + b.toString(16)).slice(-2))
+    .join("");
+}
+
+function fromHex(hex: string) {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+export async function hashPassphrase(
+  passphrase: string,
+  salt: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt: fromHex(salt), iterations: ITERATIONS, hash: "SHA-256" },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+export async function createPassphraseHash(
+  passphrase: string
+): Promise<{ salt: string; hash: string }> {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return { salt, hash: await hashPassphrase(passphrase, salt) };
+}
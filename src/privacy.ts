@@ -0,0 +1,105 @@
+import { TAbstractFile, TFolder } from "obsidian";
+import { PrivacyDecision } from "./rules";
+
+/**
+ * Privacy index
+ *
+ * Evaluating the rules reads the metadata cache, which adds up when every
+ * pane is re-styled and every file explorer entry is checked. The index
+ * keeps the decision for each file. It is built once, rebuilt when the rules
+ * change, and otherwise updated file by file from vault and metadata cache
+ * events. Updates return the paths whose privacy changed, so only the panes
+ * showing them need to be re-styled.
+ */
+
+export class PrivacyIndex {
+  decisions = new Map<string, PrivacyDecision>();
+  decide: (file: TAbstractFile) => PrivacyDecision;
+
+  constructor(decide: (file: TAbstractFile) => PrivacyDecision) {
+    this.decide = decide;
+  }
+
+  // returns the paths whose privacy changed
+  rebuild(files: TAbstractFile[]): string[] {
+    const previous = this.decisions;
+    this.decisions = new Map();
+    const changed: string[] = [];
+    files.forEach((f) => {
+      if (f.path === "/") {
+        return;
+      }
+      const decision = this.decide(f);
+      this.decisions.set(f.path, decision);
+      if ((previous.get(f.path)?.isPrivate ?? false) !== decision.isPrivate) {
+        changed.push(f.path);
+      }
+    });
+    previous.forEach((decision, path) => {
+      if (decision.isPrivate && !this.decisions.has(path)) {
+        changed.push(path);
+      }
+    });
+    return changed;
+  }
+
+  get(file: TAbstractFile): PrivacyDecision {
+    let decision = this.decisions.get(file.path);
+    if (!decision) {
+      decision = this.decide(file);
+      this.decisions.set(file.path, decision);
+    }
+    return decision;
+  }
+
+  isPrivate(path: string) {
+    return this.decisions.get(path)?.isPrivate ?? false;
+  }
+
+  privatePaths(): string[] {
+    const paths: string[] = [];
+    this.decisions.forEach((decision, path) => {
+      if (decision.isPrivate) {
+        paths.push(path);
+      }
+    });
+    return paths;
+  }
+
+  // re-evaluates the file and, for a folder, everything inside it, as path
+  // rules apply to the whole subtree
+  update(file: TAbstractFile): string[] {
+    const changed: string[] = [];
+    const visit = (f: TAbstractFile) => {
+      const wasPrivate = this.isPrivate(f.path);
+      const decision = this.decide(f);
+      this.decisions.set(f.path, decision);
+      if (wasPrivate !== decision.isPrivate) {
+        changed.push(f.path);
+      }
+      if (f instanceof TFolder) {
+        f.children.forEach(visit);
+      }
+    };
+    visit(file);
+    return changed;
+  }
+
+  // removes the path and everything below it
+  delete(path: string): string[] {
+    const changed: string[] = [];
+    Array.from(this.decisions.keys())
+      .filter((p) => p === path || p.startsWith(path + "/"))
+      .forEach((p) => {
+        if (this.isPrivate(p)) {
+          changed.push(p);
+        }
+        this.decisions.delete(p);
+      });
+    return changed;
+  }
+
+  rename(file: TAbstractFile, oldPath: string): string[] {
+    return [...this.delete(oldPath), ...this.update(file)];
+  }
+}
@@ -0,0 +1,127 @@
+import { Level } from "./constants";
+import { PrivacyRule } from "./rules";
+
+/**
+ * Profiles
+ *
+ * A profile is a named preset of the level, the blur level, the reveal
+ * options and the privacy rules. Activating a profile copies its values into
+ * the settings. Profiles can be activated by a schedule, e.g.
+ * "Mon-Fri 09:00-17:30; Sat 10:00-12:00", or when a workspace layout of the
+ * core Workspaces plugin is loaded.
+ */
+
+export interface PrivacyProfile {
+  id: string;
+  name: string;
+  level: Level;
+  blurLevel: number;
+  hoverToReveal: boolean;
+  revealUnderCaret: boolean;
+  rules: PrivacyRule[];
+  schedule: string;
+  workspace: string;
+}
+
+export interface ScheduleEntry {
+  // 0 is Sunday, as in Date.getDay()
+  days: number[];
+  // minutes since midnight
+  start: number;
+  end: number;
+}
+
+const DAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function parseTime(s: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(s);
+  if (!match) {
+    return undefined;
+  }
+  const h = parseInt(match[1]);
+  const m = parseInt(match[2]);
+  if (h > 24 || m > 59 || (h === 24 && m > 0)) {
+    return undefined;
+  }
+  return h * 60 + m;
+}
+
+function parseDays(s: string): number[] | undefined {
+  const days: number[] = [];
+  for (const part of s.split(",")) {
+    const [from, to] = part
+      .split("-")
+      .map((d) => DAYS.indexOf(d.trim().slice(0, 3).toLowerCase()));
+    if (from === -1 || to === -1) {
+      return undefined;
+    }
+    if (to === undefined) {
+      days.push(from);
+      continue;
+    }
+    for (let d = from; ; d = (d + 1) % 7) {
+      days.push(d);
+      if (d === to) {
+        break;
+      }
+    }
+  }
+  return days;
+}
+
+// returns undefined when the schedule can't be parsed. the days can be
+// omitted to mean every day, and a time range past midnight such as
+// '22:00-06:00' is allowed
+export function parseSchedule(schedule: string): ScheduleEntry[] | undefined {
+  const entries: ScheduleEntry[] = [];
+  for (const part of schedule.split(";")) {
+    const text = part.trim();
+    if (text === "") {
+      continue;
+    }
+    const match = /^(?:(\S+)\s+)?(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/.exec(
+      text
+    );
+    if (!match) {
+      return undefined;
+    }
+    const days = match[1] ? parseDays(match[1]) : [0, 1, 2, 3, 4, 5, 6];
+    const start = parseTime(match[2]);
+    const end = parseTime(match[3]);
+    if (!days || start === undefined || end === undefined) {
+      return undefined;
+    }
+    entries.push({ days, start, end });
+  }
+  return entries;
+}
+
+export function scheduleMatches(entries: ScheduleEntry[], date: Date) {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+  const yesterday = (day + 6) % 7;
+  return entries.some((e) => {
+    if (e.start <= e.end) {
+      return e.days.contains(day) && minutes >= e.start && minutes < e.end;
+    }
+    // past midnight, the day is the one the range started on
+    return (
+      (e.days.contains(day) && minutes >= e.start) ||
+      (e.days.contains(yesterday) && minutes < e.end)
+    );
+  });
+}
+
+export function findScheduledProfile(
+  profiles: PrivacyProfile[],
+  date: Date
+): PrivacyProfile | undefined {
+  return profiles.find((p) => {
+    const entries = parseSchedule(p.schedule);
+    return entries !== undefined && scheduleMatches(entries, date);
+  });
+}
+
+export function newProfileId() {
+  return Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+}
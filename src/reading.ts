@@ -0,0 +1,291 @@
+import { MarkdownPostProcessorContext } from "obsidian";
+import { CssClass } from "./constants";
+import { CompiledDetector, detectSensitive } from "./detectors";
+import {
+  RenderMode,
+  replacementText,
+  WORD_TEXT_ATTR,
+  wordRegExp,
+} from "./render";
+import { findPrivateRanges, PrivateRangeKind } from "./sections";
+import { endOfWords, StructureOptions } from "./structure";
+
+const BLOCK_SELECTOR =
+  "p, li, table, .callout, blockquote, pre, h1, h2, h3, h4, h5, h6";
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6";
+
+interface PrivateLineRange {
+  fromLine: number;
+  // inclusive
+  toLine: number;
+  kind: PrivateRangeKind;
+}
+
+interface ParsedSource {
+  sourcePath: string;
+  text: string;
+  marker: string;
+  ranges: PrivateLineRange[];
+}
+
+// the post processor runs once per block, each time with the text of the
+// whole file. the private ranges are found once per file and text, and
+// looked up by line
+let lastParsed: ParsedSource | undefined;
+
+function lineOf(lineStarts: number[], offset: number) {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
+}
+
+function privateLineRanges(
+  sourcePath: string,
+  text: string,
+  marker: string
+): PrivateLineRange[] {
+  if (
+    lastParsed &&
+    lastParsed.sourcePath === sourcePath &&
+    lastParsed.marker === marker &&
+    lastParsed.text === text
+  ) {
+    return lastParsed.ranges;
+  }
+  const lineStarts = [0];
+  for (let i = text.indexOf("\n"); i !== -1; i = text.indexOf("\n", i + 1)) {
+    lineStarts.push(i + 1);
+  }
+  const ranges = findPrivateRanges(text, marker).map((r) => ({
+    fromLine: lineOf(lineStarts, r.from),
+    toLine: lineOf(lineStarts, r.to - 1),
+    kind: r.kind,
+  }));
+  lastParsed = { sourcePath, text, marker, ranges };
+  return ranges;
+}
+
+// reading view has no .cm-line elements, so the rendered blocks are tagged
+// instead. only the outermost blocks are tagged - a blurred parent blurs its
+// children anyway, and nested filters would only make them blurrier
+export function tagReadingViewBlocks(
+  el: HTMLElement,
+  ctx: MarkdownPostProcessorContext,
+  privateSectionMarker: string
+) {
+  const blocks: HTMLElement[] = [];
+  const candidates = el.matches(BLOCK_SELECTOR)
+    ? [el]
+    : Array.from(el.querySelectorAll<HTMLElement>(BLOCK_SELECTOR));
+  candidates.forEach((b) => {
+    if (b.parentElement?.closest("." + CssClass.Block)) {
+      return;
+    }
+    b.addClass(CssClass.Block);
+    if (b.matches(HEADING_SELECTOR)) {
+      b.addClass(CssClass.Heading);
+    }
+    blocks.push(b);
+  });
+
+  const info = ctx.getSectionInfo(el);
+  if (!info || blocks.length === 0) {
+    return;
+  }
+  // the span delimiters are comments and are not rendered, so the whole
+  // block containing a private span is hidden
+  privateLineRanges(ctx.sourcePath, info.text, privateSectionMarker)
+    .filter((r) => r.fromLine <= info.lineEnd && r.toLine >= info.lineStart)
+    .forEach((r) => {
+      blocks.forEach((b) =>
+        b.addClass(
+          r.kind === PrivateRangeKind.Section
+            ? CssClass.PrivateSection
+            : CssClass.PrivateSpan
+        )
+      );
+    });
+}
+
+// links are judged by their target. an embed of a private note is hidden as a
+// whole, including any notes embedded in it. content rendered from a private
+// note is tagged as well, the stylesheet hides it only where it is shown
+// inside an embed or a hover popover of another note
+export function tagPrivateLinks(
+  el: HTMLElement,
+  ctx: MarkdownPostProcessorContext,
+  isPrivateLink: (link: string, sourcePath: string) => boolean,
+  isPrivatePath: (path: string) => boolean
+) {
+  el.toggleClass(CssClass.PrivateEmbed, isPrivatePath(ctx.sourcePath));
+  el.querySelectorAll<HTMLElement>("a.internal-link").forEach((a) => {
+    const link = a.getAttr("data-href") ?? a.getAttr("href") ?? "";
+    if (isPrivateLink(link, ctx.sourcePath)) {
+      a.addClass(CssClass.PrivateLink);
+    }
+  });
+  el.querySelectorAll<HTMLElement>(".internal-embed[src]").forEach((e) => {
+    if (isPrivateLink(e.getAttr("src") ?? "", ctx.sourcePath)) {
+      e.addClass(CssClass.PrivateEmbed);
+    }
+  });
+}
+
+// wraps the text of root which is not part of the structure, the first words
+// and the links, in spans that stay hidden. links to private notes are
+// wrapped as well, words is -1 when no words are kept
+function hideStructureText(
+  root: HTMLElement,
+  words: number,
+  keepLinks: boolean,
+  skipLists: boolean
+) {
+  let remaining = words;
+  textNodesOf(root).forEach((node) => {
+    const parent = node.parentElement;
+    const list = parent?.closest("ul, ol");
+    const link = parent?.closest("a");
+    if (
+      !parent ||
+      node.data.trim() === "" ||
+      (skipLists && list && root.contains(list)) ||
+      (keepLinks &&
+        link &&
+        root.contains(link) &&
+        !link.hasClass(CssClass.PrivateLink))
+    ) {
+      return;
+    }
+    let hidden = node;
+    if (remaining > 0) {
+      const end = endOfWords(node.data, 0, remaining);
+      if (end === undefined) {
+        remaining -= (node.data.match(wordRegExp()) ?? []).length;
+        return;
+      }
+      remaining = 0;
+      if (end >= node.data.length) {
+        return;
+      }
+      hidden = node.splitText(end);
+    }
+    const span = root.doc.createElement("span");
+    span.addClass(CssClass.StructureHidden);
+    hidden.replaceWith(span);
+    span.append(hidden);
+  });
+}
+
+// reading view counterpart of structureExtension. list items and blocks with
+// links are tagged, and everything in them but the bullets, the first words
+// and the links is wrapped to stay hidden. nested lists are left to their
+// own items. like the editor, bullets are hidden when no words are kept. has
+// to run after tagPrivateLinks and before wrapWords
+export function tagStructure(el: HTMLElement, options: StructureOptions) {
+  const lists = options.listItemWords >= 0 || options.taskState;
+  if (lists) {
+    const items = el.matches("li")
+      ? [el]
+      : Array.from(el.querySelectorAll<HTMLElement>("li"));
+    items.forEach((li) => {
+      li.addClass(CssClass.StructureLine);
+      li.toggleClass(CssClass.StructureHiddenBullet, options.listItemWords < 0);
+      li.querySelectorAll<HTMLElement>(".task-list-item-checkbox").forEach(
+        (checkbox) => {
+          if (!options.taskState && checkbox.closest("li") === li) {
+            checkbox.addClass(CssClass.StructureHidden);
+          }
+        }
+      );
+      hideStructureText(li, options.listItemWords, options.linkTargets, true);
+    });
+  }
+  if (options.linkTargets) {
+    const blocks = el.matches("." + CssClass.Block)
+      ? [el]
+      : Array.from(el.querySelectorAll<HTMLElement>("." + CssClass.Block));
+    blocks
+      .filter(
+        (b) =>
+          !b.hasClass(CssClass.Heading) &&
+          !(lists && b.matches("li")) &&
+          b.querySelector(`a:not(.${CssClass.PrivateLink})`) !== null
+      )
+      .forEach((b) => {
+        b.addClass(CssClass.StructureLine);
+        hideStructureText(b, 0, true, lists);
+      });
+  }
+}
+
+// wraps detected sensitive values in the rendered text in spans, so they can
+// be blurred on their own
+export function wrapSensitiveMatches(
+  el: HTMLElement,
+  detectors: CompiledDetector[]
+) {
+  if (detectors.length === 0) {
+    return;
+  }
+  textNodesOf(el).forEach((node) => {
+    const text = node.data;
+    const matches = detectSensitive(text, detectors);
+    if (matches.length === 0) {
+      return;
+    }
+    const fragment = el.doc.createDocumentFragment();
+    let last = 0;
+    matches.forEach((m) => {
+      fragment.append(text.slice(last, m.from));
+      fragment.createSpan({ cls: CssClass.Detected, text: m.text });
+      last = m.to;
+    });
+    fragment.append(text.slice(last));
+    node.replaceWith(fragment);
+  });
+}
+
+// same as the editor's word replacement, see render.ts
+export function wrapWords(el: HTMLElement, mode: RenderMode | undefined) {
+  if (!mode) {
+    return;
+  }
+  textNodesOf(el).forEach((node) => {
+    const text = node.data;
+    const re = wordRegExp();
+    let m: RegExpExecArray | null;
+    let last = 0;
+    const fragment = el.doc.createDocumentFragment();
+    while ((m = re.exec(text)) !== null) {
+      fragment.append(text.slice(last, m.index));
+      fragment.createSpan({
+        cls: CssClass.Word,
+        text: m[0],
+        attr: { [WORD_TEXT_ATTR]: replacementText(m[0], mode) },
+      });
+      last = m.index + m[0].length;
+    }
+    if (last === 0) {
+      return;
+    }
+    fragment.append(text.slice(last));
+    node.replaceWith(fragment);
+  });
+}
+
+function textNodesOf(el: HTMLElement): Text[] {
+  const walker = el.doc.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+  return textNodes;
+}
@@ -0,0 +1,130 @@
+/**
+ * Render modes
+ *
+ * Blur, redaction bars and circles are all CSS filters, so they follow the
+ * existing hide/reveal rules without any changes. Scrambled and decoy text
+ * cannot be produced by a filter: every word gets its replacement attached as
+ * a data attribute, and the stylesheet draws it over the word while the
+ * inherited --privacy-glasses-hidden variable is 1.
+ */
+
+export enum RenderMode {
+  Blur = "blur",
+  Redact = "redact",
+  Circles = "circles",
+  Scramble = "scramble",
+  Decoy = "decoy"
+}
+
+export const RENDER_MODES = [
+  RenderMode.Blur,
+  RenderMode.Redact,
+  RenderMode.Circles,
+  RenderMode.Scramble,
+  RenderMode.Decoy,
+];
+
+export const RENDER_MODE_NAMES: Record<RenderMode, string> = {
+  [RenderMode.Blur]: "Blur",
+  [RenderMode.Redact]: "Solid redaction bars",
+  [RenderMode.Circles]: "Circles",
+  [RenderMode.Scramble]: "Scrambled characters",
+  [RenderMode.Decoy]: "Decoy text",
+};
+
+export const WORD_TEXT_ATTR = "data-privacy-glasses-text";
+
+export function renderModeClass(mode: RenderMode) {
+  return "privacy-glasses-render-" + mode;
+}
+
+export function isTextRenderMode(mode: RenderMode) {
+  return mode === RenderMode.Scramble || mode === RenderMode.Decoy;
+}
+
+export function wordRegExp() {
+  return new RegExp("[\\p{L}\\p{N}]+", "gu");
+}
+
+// changes between sessions, so the replacement of a word can't be learned
+const SESSION_SALT = Math.floor(Math.random() * 0xffffffff);
+
+function hash(s: string) {
+  let h = 0x811c9dc5 ^ SESSION_SALT;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function isUpperCase(c: string) {
+  return c !== c.toLowerCase() && c === c.toUpperCase();
+}
+
+const LETTERS = "abcdefghijklmnopqrstuvwxyz";
+
+function scramble(word: string) {
+  let h = hash(word);
+  let result = "";
+  for (const c of word) {
+    h = Math.imul(h ^ (h >>> 15), 0x2c1b3c6d) >>> 0;
+    if (/\d/.test(c)) {
+      result += String(h % 10);
+    } else {
+      const l = LETTERS[h % LETTERS.length];
+      result += isUpperCase(c) ? l.toUpperCase() : l;
+    }
+  }
+  return result;
+}
+
+const LOREM =
+  "lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et dolore magna aliqua enim ad minim veniam quis nostrud exercitation ullamco laboris nisi aliquip ex ea commodo consequat duis aute irure in reprehenderit voluptate velit esse cillum fugiat nulla pariatur excepteur sint occaecat cupidatat non proident sunt culpa qui officia deserunt mollit anim id est laborum";
+const LOREM_WORDS = LOREM.split(" ");
+
+function decoy(word: string) {
+  const length = Array.from(word).length;
+  if (/^\d+$/.test(word)) {
+    return scramble(word);
+  }
+  const candidates = LOREM_WORDS.filter((w) => w.length === length);
+  const h = hash(word);
+  let result = candidates.length
+    ? candidates[h % candidates.length]
+    : LOREM.replace(/ /g, "").slice(h % 100, (h % 100) + length);
+  if (isUpperCase(word[0])) {
+    result = result[0].toUpperCase() + result.slice(1);
+  }
+  return result;
+}
+
+export function replacementText(word: string, mode: RenderMode) {
+  return mode === RenderMode.Decoy ? decoy(word) : scramble(word);
+}
+
+// the filters take the text's own shape and turn it into solid bars or rows
+// of dots, in the theme's text color
+const FILTERS_SVG = `<svg xmlns="http://www.w3.org/2000/svg" width="0" height="0" style="position:absolute">
+  <filter id="privacy-glasses-redact" x="-2%" y="-20%" width="104%" height="140%">
+    <feMorphology in="SourceAlpha" operator="dilate" radius="4 3" result="bars"/>
+    <feFlood style="flood-color: var(--text-muted)"/>
+    <feComposite in2="bars" operator="in"/>
+  </filter>
+  <filter id="privacy-glasses-circles" x="-2%" y="-20%" width="104%" height="140%">
+    <feMorphology in="SourceAlpha" operator="dilate" radius="4 3" result="bars"/>
+    <feImage width="10" height="10" result="dot" href="data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='10' height='10'%3E%3Ccircle cx='5' cy='5' r='3.5'/%3E%3C/svg%3E"/>
+    <feTile in="dot" result="dots"/>
+    <feFlood style="flood-color: var(--text-muted)"/>
+    <feComposite in2="dots" operator="in"/>
+    <feComposite in2="bars" operator="in"/>
+  </filter>
+</svg>`;
+
+export function addRenderFilters(doc: Document): Element {
+  const parsed = new DOMParser().parseFromString(FILTERS_SVG, "image/svg+xml");
+  const svg = doc.importNode(parsed.documentElement, true);
+  svg.classList.add("privacy-glasses-filters");
+  doc.body.appendChild(svg);
+  return svg;
+}
@@ -0,0 +1,236 @@
+import { App, getAllTags, TAbstractFile, TFile } from "obsidian";
+
+/**
+ * Privacy rules
+ *
+ * Rules are evaluated in order and the last matching rule wins, the same way
+ * .gitignore patterns work. This allows e.g. making a whole folder private and
+ * then re-including a single subfolder as public. A file that no rule matches
+ * is public.
+ */
+
+export enum RuleAction {
+  Private = "private",
+  Public = "public"
+}
+
+export enum RuleKind {
+  Path = "path",
+  Tag = "tag",
+  Property = "property",
+  Extension = "extension"
+}
+
+export interface PrivacyRule {
+  enabled: boolean;
+  action: RuleAction;
+  kind: RuleKind;
+  // glob for path rules, tag for tag rules, frontmatter key for property rules,
+  // extension for extension rules
+  pattern: string;
+  // only used by property rules - empty means "any truthy value"
+  value: string;
+}
+
+export interface PrivacyDecision {
+  isPrivate: boolean;
+  // the rule which produced the decision, undefined when no rule matched
+  rule?: PrivacyRule;
+  reason: string;
+}
+
+export const RULE_KIND_NAMES: Record<RuleKind, string> = {
+  [RuleKind.Path]: "Path",
+  [RuleKind.Tag]: "Tag",
+  [RuleKind.Property]: "Property",
+  [RuleKind.Extension]: "Extension",
+};
+
+export function newRule(
+  kind: RuleKind = RuleKind.Path,
+  action: RuleAction = RuleAction.Private
+): PrivacyRule {
+  return { enabled: true, action, kind, pattern: "", value: "" };
+}
+
+// converts a glob pattern into a regular expression. supported syntax:
+// `*` - anything except '/', `?` - single character except '/',
+// `**` - anything including '/'. a trailing `/**` also matches the folder itself
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  let i = 0;
+  while (i < glob.length) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        re += "(?:.*/)?";
+        i += 3;
+      } else {
+        re += ".*";
+        i += 2;
+      }
+    } else if (c === "*") {
+      re += "[^/]*";
+      i++;
+    } else if (c === "?") {
+      re += "[^/]";
+      i++;
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      i++;
+    }
+  }
+  re = re.replace(/\/\.\*$/, "(?:/.*)?");
+  return new RegExp("^" + re + "$");
+}
+
+export function normalizePattern(pattern: string) {
+  return pattern.trim().replace(/^\/+/, "").replace(/\/+$/, "");
+}
+
+export function matchesPath(pattern: string, path: string): boolean {
+  const p = normalizePattern(pattern);
+  if (p === "") {
+    return false;
+  }
+  // a plain folder or file name covers everything below it, but
+  // 'fin' does not match 'finance'
+  if (!/[*?]/.test(p)) {
+    return path === p || path.startsWith(p + "/");
+  }
+  return globToRegExp(p).test(path);
+}
+
+function normalizeTag(tag: string) {
+  const t = tag.trim().toLowerCase();
+  return t.startsWith("#") ? t : "#" + t;
+}
+
+// tags are hierarchical - '#private' matches '#private/finance'
+export function matchesTag(pattern: string, tags: string[]): boolean {
+  if (pattern.trim() === "") {
+    return false;
+  }
+  const p = normalizeTag(pattern);
+  return tags.some((t) => {
+    const tag = normalizeTag(t);
+    return tag === p || tag.startsWith(p + "/");
+  });
+}
+
+function isTruthyPropertyValue(v: unknown) {
+  if (v === null || v === undefined || v === false) {
+    return false;
+  }
+  const s = String(v).trim().toLowerCase();
+  return s !== "" && s !== "false" && s !== "no";
+}
+
+export function matchesProperty(
+  key: string,
+  expected: string,
+  frontmatter: Record<string, unknown> | undefined
+): boolean {
+  if (!frontmatter || key.trim() === "") {
+    return false;
+  }
+  const actual = frontmatter[key.trim()];
+  const values = Array.isArray(actual) ? actual : [actual];
+  if (expected.trim() === "") {
+    return values.some(isTruthyPropertyValue);
+  }
+  const e = expected.trim().toLowerCase();
+  return values.some(
+    (v) => v !== null && v !== undefined && String(v).toLowerCase() === e
+  );
+}
+
+export function matchesExtension(pattern: string, extension: string) {
+  const p = pattern.trim().replace(/^\./, "").toLowerCase();
+  return p !== "" && p === extension.toLowerCase();
+}
+
+export function ruleMatches(
+  app: App,
+  rule: PrivacyRule,
+  file: TAbstractFile
+): boolean {
+  if (!rule.enabled) {
+    return false;
+  }
+  if (rule.kind === RuleKind.Path) {
+    return matchesPath(rule.pattern, file.path);
+  }
+  // folders only have a path
+  if (!(file instanceof TFile)) {
+    return false;
+  }
+  if (rule.kind === RuleKind.Extension) {
+    return matchesExtension(rule.pattern, file.extension);
+  }
+  const cache = app.metadataCache.getFileCache(file);
+  if (!cache) {
+    return false;
+  }
+  switch (rule.kind) {
+    case RuleKind.Tag:
+      return matchesTag(rule.pattern, getAllTags(cache) ?? []);
+    case RuleKind.Property:
+      return matchesProperty(rule.pattern, rule.value, cache.frontmatter);
+  }
+  return false;
+}
+
+export function describeRule(rule: PrivacyRule): string {
+  const what =
+    rule.kind === RuleKind.Property && rule.value.trim() !== ""
+      ? `${rule.pattern}: ${rule.value}`
+      : rule.pattern;
+  return `${rule.action} ${RULE_KIND_NAMES[rule.kind].toLowerCase()} "${what}"`;
+}
+
+export function matchingRules(
+  app: App,
+  rules: PrivacyRule[],
+  file: TAbstractFile
+): PrivacyRule[] {
+  return rules.filter((rule) => ruleMatches(app, rule, file));
+}
+
+export function evaluateRules(
+  app: App,
+  rules: PrivacyRule[],
+  file: TAbstractFile
+): PrivacyDecision {
+  let decisive: PrivacyRule | undefined;
+  for (const rule of rules) {
+    if (ruleMatches(app, rule, file)) {
+      decisive = rule;
+    }
+  }
+  if (!decisive) {
+    return { isPrivate: false, reason: "No rule matched" };
+  }
+  return {
+    isPrivate: decisive.action === RuleAction.Private,
+    rule: decisive,
+    reason: "Matched rule: " + describeRule(decisive),
+  };
+}
+
+// converts the pre-rules settings (comma-separated private directories and
+// a private note marker tag) into the equivalent rules
+export function rulesFromLegacySettings(
+  privateDirs: string,
+  privateNoteMarker: string
+): PrivacyRule[] {
+  const rules: PrivacyRule[] = privateDirs
+    .split(",")
+    .map((d) => d.trim())
+    .filter((d) => d !== "")
+    .map((d) => ({ ...newRule(RuleKind.Path), pattern: d }));
+  if (privateNoteMarker.trim() !== "") {
+    rules.push({ ...newRule(RuleKind.Tag), pattern: privateNoteMarker.trim() });
+  }
+  return rules;
+}
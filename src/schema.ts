@@ -0,0 +1,317 @@
+import { ATTACHMENT_INHERITANCE_NAMES } from "./attachments";
+import { Level, LEVEL_NAMES } from "./constants";
+import { CLIPBOARD_GUARD_NAMES } from "./guard";
+import { IDLE_STEP_LEVELS } from "./idle";
+import { MARK_STRATEGY_NAMES } from "./marking";
+import { RENDER_MODE_NAMES } from "./render";
+import { MAX_MULTIPLIER } from "./selectors";
+import {
+  RuleAction,
+  RULE_KIND_NAMES,
+  rulesFromLegacySettings,
+} from "./rules";
+import {
+  DEFAULT_SETTINGS,
+  PrivacyGlassesSettings,
+  SETTINGS_VERSION,
+} from "./settings";
+
+/**
+ * Settings schema
+ *
+ * Saved settings carry the version of the schema they were written with.
+ * Older data is migrated one version at a time, then every value is checked:
+ * a missing or invalid value falls back to its default and is reported,
+ * instead of reaching the rest of the plugin. Imported configurations go
+ * through the same steps.
+ */
+
+// the passphrase and its lockout belong to one vault, they are neither
+// exported nor replaced by an import
+export const LOCAL_SETTINGS: (keyof PrivacyGlassesSettings)[] = [
+  "passphraseSalt",
+  "passphraseHash",
+  "passphraseFailedAttempts",
+  "passphraseLockedUntil",
+];
+
+// settings as saved, or as read from an exported file
+type SettingsData = Record<string, unknown>;
+
+interface Migration {
+  // the version of the data after the migration
+  version: number;
+  migrate: (data: SettingsData) => void;
+}
+
+function stringOr(value: unknown, fallback: string) {
+  return typeof value === "string" ? value : fallback;
+}
+
+// settings saved before privacy rules existed have 'privateDirs' and
+// 'privateNoteMarker' instead of 'rules'
+function migrateLegacyRules(data: SettingsData) {
+  if (Array.isArray(data.rules)) {
+    return;
+  }
+  if (data.privateDirs === undefined && data.privateNoteMarker === undefined) {
+    return;
+  }
+  data.rules = rulesFromLegacySettings(
+    stringOr(data.privateDirs, ""),
+    stringOr(data.privateNoteMarker, "")
+  );
+  delete data.privateDirs;
+  delete data.privateNoteMarker;
+}
+
+// the single idle timeout, -1 when turned off, became the first idle step
+function migrateLegacyIdleTimeout(data: SettingsData) {
+  if (Array.isArray(data.idleSteps) || data.blurOnIdleTimeoutSeconds === undefined) {
+    return;
+  }
+  const seconds = Number(data.blurOnIdleTimeoutSeconds);
+  data.idleSteps = seconds >= 0 ? [{ seconds, level: Level.HideAll }] : [];
+  delete data.blurOnIdleTimeoutSeconds;
+}
+
+// sensitive data detection scans every note, an upgrade does not turn it on
+function migrateDetectSensitiveData(data: SettingsData) {
+  if (data.detectSensitiveData === undefined) {
+    data.detectSensitiveData = false;
+  }
+}
+
+// data from before the schema was versioned can be in any of the older
+// formats, so these check for the fields they replace
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    migrate: (data) => {
+      migrateLegacyRules(data);
+      migrateLegacyIdleTimeout(data);
+      migrateDetectSensitiveData(data);
+    },
+  },
+];
+
+type Check = (value: unknown) => boolean;
+
+const isBoolean: Check = (v) => typeof v === "boolean";
+const isString: Check = (v) => typeof v === "string";
+
+function isNumber(min = -Infinity, max = Infinity): Check {
+  return (v) => typeof v === "number" && isFinite(v) && v >= min && v <= max;
+}
+
+function oneOf(names: Record<string, string>): Check {
+  return (v) => typeof v === "string" && Object.keys(names).contains(v);
+}
+
+function isObject(v: unknown): v is SettingsData {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function shape(checks: Record<string, Check>): Check {
+  return (v) => isObject(v) && Object.keys(checks).every((k) => checks[k](v[k]));
+}
+
+function listOf(check: Check): Check {
+  return (v) => Array.isArray(v) && v.every(check);
+}
+
+const isLevel = oneOf(LEVEL_NAMES);
+
+const isRule = shape({
+  enabled: isBoolean,
+  action: (v) => v === RuleAction.Private || v === RuleAction.Public,
+  kind: oneOf(RULE_KIND_NAMES),
+  pattern: isString,
+  value: isString,
+});
+
+// lists drop their invalid entries, objects fall back field by field, and
+// any other value is replaced as a whole
+type Field =
+  | Check
+  | { items: Check }
+  | { fields: Record<string, Check> };
+
+const SETTINGS_SCHEMA: Record<keyof PrivacyGlassesSettings, Field> = {
+  version: isNumber(0),
+  blurOnStartup: isLevel,
+  blurLevel: isNumber(0),
+  idleSteps: {
+    items: shape({
+      seconds: isNumber(0),
+      level: (v) => IDLE_STEP_LEVELS.some((level) => level === v),
+    }),
+  },
+  hideOnFocusLoss: isBoolean,
+  hideWhenDocumentHidden: isBoolean,
+  hideAfterSleep: isBoolean,
+  hoverToReveal: isBoolean,
+  revealUnderCaret: isBoolean,
+  independentWindowLevels: isBoolean,
+  peekSeconds: isNumber(0),
+  holdToRevealKey: isString,
+  clipboardGuard: oneOf(CLIPBOARD_GUARD_NAMES),
+  rules: { items: isRule },
+  attachmentInheritance: oneOf(ATTACHMENT_INHERITANCE_NAMES),
+  markStrategy: oneOf(MARK_STRATEGY_NAMES),
+  markProperty: isString,
+  markTag: isString,
+  privateSectionMarker: isString,
+  structure: {
+    fields: {
+      headingLevel: isNumber(0, 6),
+      listItemWords: isNumber(-1),
+      taskState: isBoolean,
+      calloutTitles: isBoolean,
+      tableHeaders: isBoolean,
+      linkTargets: isBoolean,
+    },
+  },
+  detectSensitiveData: isBoolean,
+  disabledDetectors: { items: isString },
+  customDetectors: {
+    items: shape({ name: isString, pattern: isString, enabled: isBoolean }),
+  },
+  customSelectors: {
+    items: shape({
+      name: isString,
+      enabled: isBoolean,
+      selector: isString,
+      viewType: isString,
+      multiplier: isNumber(0, MAX_MULTIPLIER),
+      revealOnHover: isBoolean,
+      revealUnderCaret: isBoolean,
+      revealWithHeadlines: isBoolean,
+    }),
+  },
+  renderMode: oneOf(RENDER_MODE_NAMES),
+  renderModeOverrides: (v) =>
+    isObject(v) &&
+    Object.keys(v).every((k) => isLevel(k) && oneOf(RENDER_MODE_NAMES)(v[k])),
+  passphraseSalt: isString,
+  passphraseHash: isString,
+  passphraseFailedAttempts: isNumber(0),
+  passphraseLockedUntil: isNumber(0),
+  profiles: {
+    items: shape({
+      id: isString,
+      name: isString,
+      level: isLevel,
+      blurLevel: isNumber(0),
+      hoverToReveal: isBoolean,
+      revealUnderCaret: isBoolean,
+      rules: listOf(isRule),
+      schedule: isString,
+      workspace: isString,
+    }),
+  },
+  activeProfileId: isString,
+};
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export interface LoadedSettings {
+  settings: PrivacyGlassesSettings;
+  // the version the data was saved with, 0 before the schema was versioned
+  version: number;
+  // the settings which were invalid and fell back to their defaults
+  problems: string[];
+}
+
+// the schema has checked the value, so it has the type of the setting
+function assign<K extends keyof PrivacyGlassesSettings>(
+  settings: PrivacyGlassesSettings,
+  key: K,
+  value: unknown
+) {
+  settings[key] = value as PrivacyGlassesSettings[K];
+}
+
+// migrates and validates saved or imported data. the result never shares
+// objects with the defaults or the data
+export function parseSettings(data: unknown): LoadedSettings {
+  const settings = copy(DEFAULT_SETTINGS);
+  const problems: string[] = [];
+  if (!isObject(data)) {
+    return { settings, version: SETTINGS_VERSION, problems };
+  }
+  const migrated = copy(data);
+  const saved = migrated.version;
+  const version = typeof saved === "number" && saved >= 0 ? saved : 0;
+  MIGRATIONS.filter((m) => m.version > version).forEach((m) =>
+    m.migrate(migrated)
+  );
+  migrated.version = SETTINGS_VERSION;
+
+  (Object.keys(SETTINGS_SCHEMA) as (keyof PrivacyGlassesSettings)[]).forEach(
+    (key) => {
+      const field = SETTINGS_SCHEMA[key];
+      const value = migrated[key];
+      if (value === undefined) {
+        return;
+      }
+      if (typeof field === "function") {
+        if (field(value)) {
+          assign(settings, key, value);
+        } else {
+          problems.push(key);
+        }
+      } else if ("items" in field) {
+        if (!Array.isArray(value)) {
+          problems.push(key);
+          return;
+        }
+        const valid = value.filter(field.items);
+        assign(settings, key, valid);
+        if (valid.length < value.length) {
+          problems.push(key);
+        }
+      } else if (isObject(value)) {
+        const defaults: unknown = settings[key];
+        const merged: SettingsData = isObject(defaults) ? { ...defaults } : {};
+        Object.keys(field.fields).forEach((k) => {
+          if (value[k] === undefined) {
+            return;
+          }
+          if (field.fields[k](value[k])) {
+            merged[k] = value[k];
+          } else {
+            problems.push(`${key}.${k}`);
+          }
+        });
+        assign(settings, key, merged);
+      } else {
+        problems.push(key);
+      }
+    }
+  );
+  return { settings, version, problems };
+}
+
+// the whole configuration but the local settings, as saved in a file
+export function exportSettings(settings: PrivacyGlassesSettings): string {
+  const exported: Partial<PrivacyGlassesSettings> = copy(settings);
+  LOCAL_SETTINGS.forEach((key) => delete exported[key]);
+  return JSON.stringify(exported, null, 2);
+}
+
+// throws when the text is not an exported configuration
+export function importSettings(
+  text: string,
+  current: PrivacyGlassesSettings
+): LoadedSettings {
+  const data: unknown = JSON.parse(text);
+  if (!isObject(data) || !isNumber(0)(data.version)) {
+    throw new Error("not a Privacy Glasses configuration");
+  }
+  const loaded = parseSettings(data);
+  LOCAL_SETTINGS.forEach((key) => assign(loaded.settings, key, current[key]));
+  return loaded;
+}
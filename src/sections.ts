@@ -0,0 +1,109 @@
+/**
+ * Private sections and inline spans
+ *
+ * A heading tagged with the private section marker makes the heading and
+ * everything below it private, up to the next heading of the same or a higher
+ * level. Text wrapped in %%private%% … %%/private%% is private as well. Both
+ * are found on the raw markdown text, so the same ranges can be used by the
+ * editor and by reading view.
+ */
+
+export const SPAN_OPEN = "%%private%%";
+export const SPAN_CLOSE = "%%/private%%";
+
+export enum PrivateRangeKind {
+  Section = "section",
+  Span = "span"
+}
+
+export interface PrivateRange {
+  from: number;
+  to: number;
+  kind: PrivateRangeKind;
+}
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// matches the marker tag and its subtags, e.g. '#private' and '#private/work'
+export function markerRegExp(marker: string): RegExp | undefined {
+  let m = marker.trim();
+  if (m === "") {
+    return undefined;
+  }
+  if (!m.startsWith("#")) {
+    m = "#" + m;
+  }
+  return new RegExp(`(?:^|\\s)${escapeRegExp(m)}(?:/\\S*)?(?=\\s|$)`, "i");
+}
+
+export function headingLevel(line: string): number {
+  const match = /^(#{1,6})\s/.exec(line);
+  return match ? match[1].length : 0;
+}
+
+export function findPrivateSections(
+  text: string,
+  marker: string
+): PrivateRange[] {
+  const markerRe = markerRegExp(marker);
+  if (!markerRe) {
+    return [];
+  }
+  const ranges: PrivateRange[] = [];
+  let open: { from: number; level: number } | undefined;
+  let inFence = false;
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const level = inFence ? 0 : headingLevel(line);
+    if (level > 0) {
+      if (open && level <= open.level) {
+        ranges.push({
+          from: open.from,
+          to: offset - 1,
+          kind: PrivateRangeKind.Section,
+        });
+        open = undefined;
+      }
+      if (!open && markerRe.test(line)) {
+        open = { from: offset, level };
+      }
+    }
+    offset += line.length + 1;
+  }
+  if (open) {
+    ranges.push({
+      from: open.from,
+      to: text.length,
+      kind: PrivateRangeKind.Section,
+    });
+  }
+  return ranges;
+}
+
+// an unclosed span hides everything up to the end of the note, it is safer
+// to hide too much than to leak content while the closing delimiter is typed
+export function findPrivateSpans(text: string): PrivateRange[] {
+  const ranges: PrivateRange[] = [];
+  let from = text.indexOf(SPAN_OPEN);
+  while (from !== -1) {
+    const close = text.indexOf(SPAN_CLOSE, from + SPAN_OPEN.length);
+    const to = close === -1 ? text.length : close + SPAN_CLOSE.length;
+    ranges.push({ from, to, kind: PrivateRangeKind.Span });
+    from = close === -1 ? -1 : text.indexOf(SPAN_OPEN, to);
+  }
+  return ranges;
+}
+
+export function findPrivateRanges(
+  text: string,
+  marker: string
+): PrivateRange[] {
+  return [...findPrivateSections(text, marker), ...findPrivateSpans(text)]
+    .filter((r) => r.to > r.from)
+    .sort((a, b) => a.from - b.from);
+}
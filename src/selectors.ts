@@ -0,0 +1,186 @@
+import { RenderMode, renderModeClass } from "./render";
+
+/**
+ * Custom selectors
+ *
+ * The stylesheet only knows Obsidian's own views. Views of other plugins are
+ * blurred as one block, and content they render inside notes, such as
+ * Dataview tables, is missed entirely. Custom selectors hide more elements,
+ * each with its own blur strength and reveal behavior. The stylesheet for
+ * them is generated at runtime, like the blur level.
+ */
+
+export interface CustomSelector {
+  name: string;
+  enabled: boolean;
+  selector: string;
+  // the view type the selector covers, e.g. 'kanban'. its panes are no
+  // longer blurred as one block, only the selected elements are. empty for
+  // elements which can show up anywhere
+  viewType: string;
+  // multiplies the blur level
+  multiplier: number;
+  revealOnHover: boolean;
+  revealUnderCaret: boolean;
+  // stays readable in 'Reveal headlines only', e.g. column titles
+  revealWithHeadlines: boolean;
+}
+
+// the multiplier is kept in this range, the stylesheet drops a blur with a
+// negative radius and huge ones only cost rendering time
+export const MAX_MULTIPLIER = 10;
+
+export function isValidMultiplier(multiplier: number) {
+  return (
+    isFinite(multiplier) && multiplier >= 0 && multiplier <= MAX_MULTIPLIER
+  );
+}
+
+function clampMultiplier(multiplier: number) {
+  return isFinite(multiplier)
+    ? Math.min(Math.max(multiplier, 0), MAX_MULTIPLIER)
+    : 1;
+}
+
+export interface SelectorPreset {
+  name: string;
+  selectors: CustomSelector[];
+}
+
+export function newCustomSelector(): CustomSelector {
+  return {
+    name: "",
+    enabled: true,
+    selector: "",
+    viewType: "",
+    multiplier: 1,
+    revealOnHover: true,
+    revealUnderCaret: false,
+    revealWithHeadlines: false,
+  };
+}
+
+export const SELECTOR_PRESETS: SelectorPreset[] = [
+  {
+    name: "Kanban",
+    selectors: [
+      {
+        ...newCustomSelector(),
+        name: "Kanban lane titles",
+        selector: ".kanban-plugin__lane-header-wrapper",
+        viewType: "kanban",
+        revealWithHeadlines: true,
+      },
+      {
+        ...newCustomSelector(),
+        name: "Kanban cards",
+        selector: ".kanban-plugin__item",
+        viewType: "kanban",
+      },
+    ],
+  },
+  {
+    name: "Dataview",
+    selectors: [
+      {
+        ...newCustomSelector(),
+        name: "Dataview blocks",
+        selector: ".block-language-dataview, .block-language-dataviewjs",
+        revealUnderCaret: true,
+      },
+      {
+        ...newCustomSelector(),
+        name: "Dataview inline fields",
+        selector: ".dataview.inline-field",
+        revealUnderCaret: true,
+      },
+    ],
+  },
+  {
+    name: "Tasks",
+    selectors: [
+      {
+        ...newCustomSelector(),
+        name: "Tasks queries",
+        selector: ".block-language-tasks",
+        revealUnderCaret: true,
+      },
+    ],
+  },
+  {
+    name: "Excalidraw",
+    selectors: [
+      {
+        ...newCustomSelector(),
+        name: "Excalidraw drawings",
+        selector: ".excalidraw canvas, .excalidraw-svg",
+        viewType: "excalidraw",
+        multiplier: 3,
+      },
+    ],
+  },
+];
+
+export function isValidSelector(selector: string) {
+  if (selector.trim() === "") {
+    return false;
+  }
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+function isActive(s: CustomSelector) {
+  return s.enabled && isValidSelector(s.selector);
+}
+
+// the selectors of the enabled entries, for the clipboard guard
+export function activeSelectors(selectors: CustomSelector[]): string[] {
+  return selectors.filter(isActive).map((s) => s.selector);
+}
+
+// the view types whose panes are hidden element by element
+export function customViewTypes(selectors: CustomSelector[]): string[] {
+  return selectors
+    .filter((s) => isActive(s) && s.viewType.trim() !== "")
+    .map((s) => s.viewType.trim());
+}
+
+// the body in the render modes which blur, where the multiplier scales the
+// blur. :where keeps the rule from outweighing the reveals
+const BLURRING_BODY = `body:where(:not(.${renderModeClass(
+  RenderMode.Redact
+)}, .${renderModeClass(RenderMode.Circles)}))`;
+
+// hidden everywhere in the current render mode, then revealed the same way
+// as the built-in elements: in revealed panes, in 'Reveal all' and by the
+// reveal behaviors the selector allows
+export function customSelectorsCss(selectors: CustomSelector[]): string {
+  const reveal = "filter: unset; --privacy-glasses-hidden: 0;";
+  return selectors
+    .filter(isActive)
+    .map((s) => {
+      const el = `:is(${s.selector})`;
+      const multiplier = clampMultiplier(s.multiplier);
+      const reveals = [
+        `.privacy-glasses-reveal ${el}`,
+        `.privacy-glasses-reveal-all ${el}`,
+      ];
+      if (s.revealOnHover) {
+        reveals.push(`.privacy-glasses-reveal-on-hover ${el}:hover`);
+      }
+      if (s.revealUnderCaret) {
+        reveals.push(`.privacy-glasses-reveal-under-caret .cm-active ${el}`);
+      }
+      if (s.revealWithHeadlines) {
+        reveals.push(`.privacy-glasses-reveal-headlines ${el}`);
+      }
+      return `${el} {filter: var(--privacy-glasses-filter); --privacy-glasses-hidden: 1;}
+${BLURRING_BODY} ${el} {filter: blur(calc(var(--blurLevel) * ${multiplier}));}
+${reveals.join(",\n")} {${reveal}}`;
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,1133 @@
+import { App, Notice, PluginSettingTab, Setting } from "obsidian";
+import type PrivacyGlassesPlugin from "../main";
+import {
+  AttachmentInheritance,
+  ATTACHMENT_INHERITANCE_NAMES,
+} from "./attachments";
+import { Level, LEVEL_NAMES } from "./constants";
+import { ClipboardGuard, CLIPBOARD_GUARD_NAMES } from "./guard";
+import { IdleStep, IDLE_STEP_LEVELS } from "./idle";
+import { MarkStrategy, MARK_STRATEGY_NAMES } from "./marking";
+import { createPassphraseHash } from "./passphrase";
+import { newProfileId, parseSchedule, PrivacyProfile } from "./profiles";
+import { RenderMode, RENDER_MODE_NAMES } from "./render";
+import { DEFAULT_STRUCTURE_OPTIONS, StructureOptions } from "./structure";
+import {
+  CustomSelector,
+  isValidMultiplier,
+  isValidSelector,
+  MAX_MULTIPLIER,
+  newCustomSelector,
+  SELECTOR_PRESETS,
+} from "./selectors";
+import {
+  BUILT_IN_DETECTORS,
+  CustomDetector,
+  isValidPattern,
+} from "./detectors";
+import {
+  newRule,
+  PrivacyRule,
+  RuleAction,
+  RuleKind,
+  RULE_KIND_NAMES,
+} from "./rules";
+
+// the version of the settings schema, raised with every migration
+export const SETTINGS_VERSION = 1;
+
+export interface PrivacyGlassesSettings {
+  version: number;
+  blurOnStartup: Level;
+  blurLevel: number;
+  idleSteps: IdleStep[];
+  hideOnFocusLoss: boolean;
+  hideWhenDocumentHidden: boolean;
+  hideAfterSleep: boolean;
+  hoverToReveal: boolean;
+  revealUnderCaret: boolean;
+  independentWindowLevels: boolean;
+  peekSeconds: number;
+  // KeyboardEvent.key of the modifier, empty when turned off
+  holdToRevealKey: string;
+  clipboardGuard: ClipboardGuard;
+  rules: PrivacyRule[];
+  attachmentInheritance: AttachmentInheritance;
+  // what 'Make private' and 'Make public' change
+  markStrategy: MarkStrategy;
+  markProperty: string;
+  markTag: string;
+  privateSectionMarker: string;
+  // what stays readable in 'Reveal headlines only'
+  structure: StructureOptions;
+  detectSensitiveData: boolean;
+  disabledDetectors: string[];
+  customDetectors: CustomDetector[];
+  customSelectors: CustomSelector[];
+  renderMode: RenderMode;
+  renderModeOverrides: Partial<Record<Level, RenderMode>>;
+  passphraseSalt: string;
+  passphraseHash: string;
+  passphraseFailedAttempts: number;
+  passphraseLockedUntil: number;
+  profiles: PrivacyProfile[];
+  activeProfileId: string;
+}
+
+export const DEFAULT_SETTINGS: PrivacyGlassesSettings = {
+  version: SETTINGS_VERSION,
+  blurOnStartup: Level.HidePrivate,
+  blurLevel: 0.3,
+  idleSteps: [],
+  hideOnFocusLoss: false,
+  hideWhenDocumentHidden: false,
+  hideAfterSleep: false,
+  hoverToReveal: true,
+  revealUnderCaret: false,
+  independentWindowLevels: false,
+  peekSeconds: 10,
+  holdToRevealKey: "",
+  clipboardGuard: ClipboardGuard.Off,
+  rules: [{ ...newRule(RuleKind.Tag), pattern: "#private" }],
+  attachmentInheritance: AttachmentInheritance.Off,
+  markStrategy: MarkStrategy.Property,
+  markProperty: "private",
+  markTag: "#private",
+  // has to differ from the tag rule, Obsidian counts a tag on a heading as a
+  // tag of the whole note
+  privateSectionMarker: "#private-section",
+  structure: { ...DEFAULT_STRUCTURE_OPTIONS },
+  detectSensitiveData: false,
+  disabledDetectors: [],
+  customDetectors: [],
+  customSelectors: [],
+  renderMode: RenderMode.Blur,
+  renderModeOverrides: {},
+  passphraseSalt: "",
+  passphraseHash: "",
+  passphraseFailedAttempts: 0,
+  passphraseLockedUntil: 0,
+  profiles: [],
+  activeProfileId: "",
+};
+
+const HOLD_TO_REVEAL_KEYS: Record<string, string> = {
+  "": "Off",
+  Alt: "Alt / Option",
+  Control: "Ctrl",
+  Meta: "Cmd / Win",
+  Shift: "Shift",
+};
+
+const RULE_PLACEHOLDERS: Record<RuleKind, string> = {
+  [RuleKind.Path]: "finance/** or therapy",
+  [RuleKind.Tag]: "#private",
+  [RuleKind.Property]: "private",
+  [RuleKind.Extension]: "pdf",
+};
+
+export class PrivacyGlassesSettingTab extends PluginSettingTab {
+  plugin: PrivacyGlassesPlugin;
+  // rules, profiles and most other settings can make private notes readable,
+  // so while a passphrase is set they are only shown once it was entered.
+  // closing the settings locks them again
+  unlocked = false;
+  constructor(app: App, plugin: PrivacyGlassesPlugin) {
+    super(app, plugin);
+    this.plugin = plugin;
+  }
+
+  hide(): void {
+    this.unlocked = false;
+  }
+
+  display(): void {
+    let { containerEl } = this;
+
+    containerEl.empty();
+    containerEl.createEl("h3", {
+      text: "Privacy Glasses v" + this.plugin.manifest.version,
+    });
+    containerEl.createEl("a", {
+      text: "https://github.com/jillalberts/privacy-glasses",
+      href: "https://github.com/jillalberts/privacy-glasses",
+    });
+    containerEl.createEl("span", {
+      text: ": documentation, report issues, contact info",
+    });
+    containerEl.createEl("p", {
+      text: 'To activate/deactivate Privacy Glasses, click the glasses icon on the left-hand ribbon or run "Privacy Glasses" commands in the Command Palette (Ctrl-P). The command can also be bound to a keyboard shortcut if you wish.',
+    });
+
+    if (this.plugin.settings.passphraseHash && !this.unlocked) {
+      new Setting(containerEl)
+        .setName("Settings are locked")
+        .setDesc("A passphrase is set. Enter it to change the settings.")
+        .addButton((button) =>
+          button.setButtonText("Unlock").onClick(async () => {
+            if (!(await this.plugin.requestPassphrase())) {
+              return;
+            }
+            this.unlocked = true;
+            this.display();
+          })
+        );
+      return;
+    }
+
+    new Setting(containerEl)
+      .setName("Activate Privacy Glasses on startup")
+      .setDesc(
+        "Indicates whether the plugin is automatically activated when starting Obsidian."
+      )
+      .addDropdown((toggle) => {
+        toggle.addOptions({
+          "hide-all": "Hide all",
+          "hide-private": "Hide private (default)",
+          "reveal-all": "Reveal all",
+          "reveal-headlines": "Reveal headlines only"
+        });
+        toggle.setValue(this.plugin.settings.blurOnStartup);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.blurOnStartup = value as Level;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    this.displayIdleSteps(containerEl);
+
+    new Setting(containerEl)
+      .setName("Hide all when Obsidian loses focus")
+      .setDesc(
+        "Hides everything as soon as you switch to another application. Switching between Obsidian windows does not count."
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.hideOnFocusLoss);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.hideOnFocusLoss = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Hide all when Obsidian is minimized or covered")
+      .setDesc(
+        "Hides everything when the window is minimized, moved to another desktop or the screen is locked, so it is hidden when it shows up again."
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.hideWhenDocumentHidden);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.hideWhenDocumentHidden = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Hide all after sleep")
+      .setDesc(
+        "Hides everything when the computer wakes up from sleep or hibernation."
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.hideAfterSleep);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.hideAfterSleep = value;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Hover to reveal")
+      .setDesc(
+        "Indicates whether or not to reveal content when hovering the cursor over it. Not available while a passphrase is set."
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.hoverToReveal);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.hoverToReveal = value;
+          this.plugin.updateLeavesAndGlobalReveals();
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Reveal under caret")
+      .setDesc(
+        "Indicates whether or not to reveal content when caret is on it. Not available while a passphrase is set."
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.revealUnderCaret);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.revealUnderCaret = value;
+          this.plugin.updateGlobalRevealStyle();
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Independent pop-out window levels")
+      .setDesc(
+        "Lets each pop-out window keep its own level. Changing the level from within a pop-out window only affects that window, the main window and the status bar are not changed."
+      )
+      .addToggle((toggle) => {
+        toggle.setValue(this.plugin.settings.independentWindowLevels);
+        toggle.onChange(async (value) => {
+          this.plugin.settings.independentWindowLevels = value;
+          if (!value) {
+            this.plugin.windows.forEach((state) => (state.level = undefined));
+          }
+          this.plugin.updateLeavesAndGlobalReveals();
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Peek duration (seconds)")
+      .setDesc(
+        "How long the peek commands reveal the current note or everything before hiding it again."
+      )
+      .addText((textfield) => {
+        textfield.setPlaceholder("10");
+        textfield.inputEl.type = "number";
+        textfield.inputEl.min = "1";
+        textfield.setValue(String(this.plugin.settings.peekSeconds));
+        textfield.onChange(async (value) => {
+          const parsed = parseFloat(value);
+          this.plugin.settings.peekSeconds =
+            isNaN(parsed) || parsed <= 0 ? 10 : parsed;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Hold to reveal")
+      .setDesc(
+        "Reveals everything while this key is held down on its own. Pressing any other key together with it hides again. Not available while a passphrase is set."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(HOLD_TO_REVEAL_KEYS)
+          .setValue(this.plugin.settings.holdToRevealKey)
+          .onChange(async (value) => {
+            this.plugin.settings.holdToRevealKey = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Guard hidden content")
+      .setDesc(
+        "Copying, cutting or dragging content that is hidden right now, and exporting a hidden private note to PDF or printing it. Dragging cannot be confirmed afterwards, so it is always blocked. With a passphrase set, confirming asks for it."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(CLIPBOARD_GUARD_NAMES)
+          .setValue(this.plugin.settings.clipboardGuard)
+          .onChange(async (value) => {
+            this.plugin.settings.clipboardGuard = value as ClipboardGuard;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    var sliderEl = new Setting(containerEl);
+    let sliderElDesc = "Higher is blurrier. Default=60, current=";
+    sliderEl
+      .setName("Blur level")
+      .setDesc(sliderElDesc + Math.round(this.plugin.settings.blurLevel * 100))
+      // ^ need rounding to not show values like '55.00000000000001'
+      .addSlider((slider) =>
+        slider
+          .setLimits(0.1, 1.5, 0.05)
+          .setValue(this.plugin.settings.blurLevel)
+          .onChange(async (value) => {
+            this.plugin.settings.blurLevel = value;
+            sliderEl.setDesc(
+              sliderElDesc + Math.round(this.plugin.settings.blurLevel * 100)
+            );
+            this.plugin.updateBlurLevelEl();
+            this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Render mode")
+      .setDesc(
+        "How hidden text is drawn. Blur can still leak word shapes and line lengths, the other modes hide more. Images are always blurred."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(RENDER_MODE_NAMES)
+          .setValue(this.plugin.settings.renderMode)
+          .onChange(async (value) => {
+            this.plugin.settings.renderMode = value as RenderMode;
+            await this.plugin.saveSettings();
+            this.plugin.updateGlobalRevealStyle();
+          })
+      );
+
+    const overrideLevels: [Level, string][] = [
+      [Level.HideAll, "Render mode in 'Hide all'"],
+      [Level.HidePrivate, "Render mode in 'Hide private'"],
+    ];
+    overrideLevels.forEach(([level, name]) => {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc("Overrides the render mode above for this level.")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("", "Same as render mode")
+            .addOptions(RENDER_MODE_NAMES)
+            .setValue(this.plugin.settings.renderModeOverrides[level] ?? "")
+            .onChange(async (value) => {
+              const overrides = this.plugin.settings.renderModeOverrides;
+              if (value === "") {
+                delete overrides[level];
+              } else {
+                overrides[level] = value as RenderMode;
+              }
+              await this.plugin.saveSettings();
+              this.plugin.updateGlobalRevealStyle();
+            })
+        );
+    });
+
+    new Setting(containerEl)
+      .setName("Private section marker")
+      .setDesc(
+        "Add this tag to a heading to hide the heading and its section, even in notes that are otherwise public. It has to differ from the tags of your privacy rules: a tag on a heading counts for the whole note, which would make it private. To hide only some text, wrap it in %%private%% … %%/private%%."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("#private-section")
+          .setValue(this.plugin.settings.privateSectionMarker)
+          .onChange(async (value) => {
+            this.plugin.settings.privateSectionMarker = value;
+            await this.plugin.saveSettings();
+            this.app.workspace.updateOptions();
+            this.plugin.rerenderReadingViews();
+          })
+      );
+
+    this.displayStructure(containerEl);
+    this.displayPassphrase(containerEl);
+    this.displayRules(containerEl);
+    this.displayProfiles(containerEl);
+    this.displayDetectors(containerEl);
+    this.displayCustomSelectors(containerEl);
+  }
+
+  displayIdleSteps(containerEl: HTMLElement) {
+    const steps = this.plugin.settings.idleSteps;
+    new Setting(containerEl)
+      .setName("Hide after user inactivity")
+      .setDesc(
+        "Hides more the longer Obsidian is not used, e.g. 'Hide private' after 30 seconds and 'Hide all' after 120 seconds. Moving the mouse, scrolling, touching and typing count as activity. The status bar counts down the last 10 seconds before each step."
+      )
+      .addButton((button) =>
+        button.setButtonText("Add step").onClick(async () => {
+          steps.push({
+            seconds: steps.length > 0 ? steps[steps.length - 1].seconds * 2 : 60,
+            level: Level.HideAll,
+          });
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    steps.forEach((step, index) => {
+      new Setting(containerEl)
+        .setClass("privacy-glasses-idle-step")
+        .addText((text) => {
+          text.inputEl.type = "number";
+          text.inputEl.min = "1";
+          text
+            .setPlaceholder("Seconds")
+            .setValue(String(step.seconds))
+            .onChange(async (value) => {
+              const parsed = parseFloat(value);
+              const valid = !isNaN(parsed) && parsed > 0;
+              text.inputEl.toggleClass("privacy-glasses-invalid", !valid);
+              if (valid) {
+                step.seconds = parsed;
+                await this.plugin.saveSettings();
+              }
+            });
+        })
+        .addDropdown((dropdown) => {
+          IDLE_STEP_LEVELS.forEach((level) =>
+            dropdown.addOption(level, LEVEL_NAMES[level])
+          );
+          dropdown.setValue(step.level).onChange(async (value) => {
+            step.level = value as Level;
+            await this.plugin.saveSettings();
+          });
+        })
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete step")
+            .onClick(async () => {
+              steps.splice(index, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    });
+  }
+
+  displayProfiles(containerEl: HTMLElement) {
+    containerEl.createEl("h4", { text: "Profiles" });
+    containerEl.createEl("p", {
+      text: "A profile stores a level, the blur level, the reveal options and the privacy rules under a name. 'Save current' stores the current settings in the profile, activating it restores them. A schedule such as 'Mon-Fri 09:00-17:30; Sat 10:00-12:00' activates the profile when it starts, and so does loading the named layout of the core Workspaces plugin.",
+    });
+
+    const settings = this.plugin.settings;
+
+    settings.profiles.forEach((profile, index) => {
+      const isActive = profile.id === settings.activeProfileId;
+      new Setting(containerEl)
+        .setName(profile.name + (isActive ? " (active)" : ""))
+        .setClass("privacy-glasses-profile")
+        .addText((text) =>
+          text
+            .setPlaceholder("Name")
+            .setValue(profile.name)
+            .onChange(async (value) => {
+              profile.name = value;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(LEVEL_NAMES)
+            .setValue(profile.level)
+            .onChange(async (value) => {
+              profile.level = value as Level;
+              await this.plugin.saveSettings();
+            })
+        )
+        .addButton((button) =>
+          button
+            .setButtonText("Save current")
+            .setTooltip("Store the current blur level, reveal options and rules")
+            .onClick(async () => {
+              this.plugin.saveCurrentToProfile(profile);
+              await this.plugin.saveSettings();
+              new Notice(`Privacy Glasses: saved profile "${profile.name}"`);
+            })
+        )
+        .addButton((button) =>
+          button.setButtonText("Activate").onClick(async () => {
+            await this.plugin.activateProfile(profile);
+            this.display();
+          })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete profile")
+            .onClick(async () => {
+              settings.profiles.splice(index, 1);
+              this.plugin.removeProfileCommand(profile);
+              if (isActive) {
+                settings.activeProfileId = "";
+              }
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+
+      new Setting(containerEl)
+        .setClass("privacy-glasses-profile-triggers")
+        .addText((text) => {
+          const validate = (value: string) =>
+            text.inputEl.toggleClass(
+              "privacy-glasses-invalid",
+              parseSchedule(value) === undefined
+            );
+          validate(profile.schedule);
+          text
+            .setPlaceholder("Schedule, e.g. Mon-Fri 09:00-17:30")
+            .setValue(profile.schedule)
+            .onChange(async (value) => {
+              profile.schedule = value;
+              validate(value);
+              await this.plugin.saveSettings();
+            });
+        })
+        .addText((text) =>
+          text
+            .setPlaceholder("Workspace layout name")
+            .setValue(profile.workspace)
+            .onChange(async (value) => {
+              profile.workspace = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add profile from current settings").onClick(async () => {
+        const profile: PrivacyProfile = {
+          id: newProfileId(),
+          name: "Profile " + (settings.profiles.length + 1),
+          level: this.plugin.currentLevel,
+          blurLevel: 0,
+          hoverToReveal: false,
+          revealUnderCaret: false,
+          rules: [],
+          schedule: "",
+          workspace: "",
+        };
+        this.plugin.saveCurrentToProfile(profile);
+        settings.profiles.push(profile);
+        this.plugin.addProfileCommand(profile);
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+  }
+
+  displayPassphrase(containerEl: HTMLElement) {
+    const settings = this.plugin.settings;
+    const setting = new Setting(containerEl).setName("Passphrase");
+
+    if (settings.passphraseHash) {
+      setting
+        .setDesc(
+          "A passphrase is set. It is required to switch to a level that reveals more. Resetting it requires the current passphrase."
+        )
+        .addButton((button) =>
+          button.setButtonText("Reset passphrase").onClick(async () => {
+            if (!(await this.plugin.requestPassphrase())) {
+              return;
+            }
+            settings.passphraseSalt = "";
+            settings.passphraseHash = "";
+            settings.passphraseFailedAttempts = 0;
+            settings.passphraseLockedUntil = 0;
+            await this.plugin.saveSettings();
+            this.plugin.updateGlobalRevealStyle();
+            this.display();
+          })
+        );
+      return;
+    }
+
+    let passphrase = "";
+    let confirmation = "";
+    setting
+      .setDesc(
+        "Optional. When set, it is asked for before anything hidden is revealed: switching to a level that reveals more, peeking, and changing these settings. Hover and caret reveal are turned off. Only a salted hash is stored."
+      )
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.setPlaceholder("Passphrase").onChange((value) => {
+          passphrase = value;
+        });
+      })
+      .addText((text) => {
+        text.inputEl.type = "password";
+        text.setPlaceholder("Repeat passphrase").onChange((value) => {
+          confirmation = value;
+        });
+      })
+      .addButton((button) =>
+        button.setButtonText("Set").onClick(async () => {
+          if (passphrase === "") {
+            new Notice("Privacy Glasses: the passphrase is empty");
+            return;
+          }
+          if (passphrase !== confirmation) {
+            new Notice("Privacy Glasses: the passphrases do not match");
+            return;
+          }
+          const { salt, hash } = await createPassphraseHash(passphrase);
+          settings.passphraseSalt = salt;
+          settings.passphraseHash = hash;
+          settings.passphraseFailedAttempts = 0;
+          settings.passphraseLockedUntil = 0;
+          await this.plugin.saveSettings();
+          this.plugin.updateGlobalRevealStyle();
+          this.unlocked = true;
+          this.display();
+        })
+      );
+  }
+
+  displayDetectors(containerEl: HTMLElement) {
+    containerEl.createEl("h4", { text: "Sensitive data detection" });
+
+    const settings = this.plugin.settings;
+    const onDetectorsChanged = async (redisplay = false) => {
+      await this.plugin.saveSettings();
+      this.plugin.updateDetectors();
+      if (redisplay) {
+        this.display();
+      }
+    };
+
+    new Setting(containerEl)
+      .setName("Detect sensitive data")
+      .setDesc(
+        "Hide detected values in every note, private or not, unless everything is revealed."
+      )
+      .addToggle((toggle) =>
+        toggle.setValue(settings.detectSensitiveData).onChange(async (value) => {
+          settings.detectSensitiveData = value;
+          await onDetectorsChanged(true);
+        })
+      );
+
+    if (!settings.detectSensitiveData) {
+      return;
+    }
+
+    BUILT_IN_DETECTORS.forEach((d) => {
+      new Setting(containerEl).setName(d.name).addToggle((toggle) =>
+        toggle
+          .setValue(!settings.disabledDetectors.contains(d.id))
+          .onChange(async (value) => {
+            settings.disabledDetectors.remove(d.id);
+            if (!value) {
+              settings.disabledDetectors.push(d.id);
+            }
+            await onDetectorsChanged();
+          })
+      );
+    });
+
+    containerEl.createEl("p", {
+      text: "Custom detectors are regular expressions. If a pattern has a capture group, only the first group is hidden.",
+    });
+
+    settings.customDetectors.forEach((detector, index) => {
+      new Setting(containerEl)
+        .setClass("privacy-glasses-detector")
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Enabled")
+            .setValue(detector.enabled)
+            .onChange(async (value) => {
+              detector.enabled = value;
+              await onDetectorsChanged();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Name")
+            .setValue(detector.name)
+            .onChange(async (value) => {
+              detector.name = value;
+              await onDetectorsChanged();
+            })
+        )
+        .addText((text) => {
+          const validate = (value: string) =>
+            text.inputEl.toggleClass(
+              "privacy-glasses-invalid",
+              !isValidPattern(value)
+            );
+          validate(detector.pattern);
+          text
+            .setPlaceholder("employee-\\d{6}")
+            .setValue(detector.pattern)
+            .onChange(async (value) => {
+              detector.pattern = value;
+              validate(value);
+              await onDetectorsChanged();
+            });
+        })
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete detector")
+            .onClick(async () => {
+              settings.customDetectors.splice(index, 1);
+              await onDetectorsChanged(true);
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add detector").onClick(async () => {
+        settings.customDetectors.push({ name: "", pattern: "", enabled: true });
+        await onDetectorsChanged(true);
+      })
+    );
+  }
+
+  displayStructure(containerEl: HTMLElement) {
+    containerEl.createEl("h4", { text: "Reveal headlines only" });
+    containerEl.createEl("p", {
+      text: "What of a note's structure stays readable in 'Reveal headlines only'. Everything else is hidden.",
+    });
+
+    // the editors compare the options by identity, so changes replace them
+    const update = async (changes: Partial<StructureOptions>) => {
+      this.plugin.settings.structure = {
+        ...this.plugin.settings.structure,
+        ...changes,
+      };
+      await this.plugin.saveSettings();
+      this.plugin.onStructureOptionsChanged();
+    };
+    const options = this.plugin.settings.structure;
+
+    new Setting(containerEl).setName("Headings").addDropdown((dropdown) => {
+      dropdown.addOption("0", "None");
+      [1, 2, 3, 4, 5].forEach((n) =>
+        dropdown.addOption(String(n), n === 1 ? "Level 1" : `Levels 1-${n}`)
+      );
+      dropdown.addOption("6", "All");
+      dropdown
+        .setValue(String(options.headingLevel))
+        .onChange((value) => update({ headingLevel: parseInt(value) }));
+    });
+
+    new Setting(containerEl)
+      .setName("List items")
+      .setDesc(
+        "Reveal the bullets and this many words of each list item. Leave empty to hide list items, 0 reveals only the bullets."
+      )
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text
+          .setPlaceholder("Hidden")
+          .setValue(options.listItemWords < 0 ? "" : String(options.listItemWords))
+          .onChange(async (value) => {
+            const parsed = parseInt(value);
+            const invalid = value.trim() !== "" && (isNaN(parsed) || parsed < 0);
+            text.inputEl.toggleClass("privacy-glasses-invalid", invalid);
+            if (!invalid) {
+              await update({ listItemWords: value.trim() === "" ? -1 : parsed });
+            }
+          });
+      });
+
+    const toggles: [keyof StructureOptions, string][] = [
+      ["taskState", "Task checkboxes"],
+      ["calloutTitles", "Callout titles"],
+      ["tableHeaders", "Table headers"],
+      ["linkTargets", "Links"],
+    ];
+    toggles.forEach(([key, name]) => {
+      new Setting(containerEl).setName(name).addToggle((toggle) =>
+        toggle
+          .setValue(!!options[key])
+          .onChange((value) => update({ [key]: value }))
+      );
+    });
+  }
+
+  displayCustomSelectors(containerEl: HTMLElement) {
+    containerEl.createEl("h4", { text: "Custom selectors" });
+    containerEl.createEl("p", {
+      text: "Hide the elements of other plugins, such as Kanban cards or Dataview tables. Each entry is a CSS selector. With a view type, panes of that type are no longer blurred as a whole, only the selected elements are. The multiplier scales the blur level in the blurring render modes.",
+    });
+
+    const selectors = this.plugin.settings.customSelectors;
+    const onSelectorsChanged = async (redisplay = false) => {
+      await this.plugin.saveSettings();
+      this.plugin.updateCustomSelectorsEl();
+      this.plugin.updateLeavesStyle();
+      if (redisplay) {
+        this.display();
+      }
+    };
+
+    selectors.forEach((entry, index) => {
+      new Setting(containerEl)
+        .setClass("privacy-glasses-selector")
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Enabled")
+            .setValue(entry.enabled)
+            .onChange(async (value) => {
+              entry.enabled = value;
+              await onSelectorsChanged();
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder("Name")
+            .setValue(entry.name)
+            .onChange(async (value) => {
+              entry.name = value;
+              await onSelectorsChanged();
+            })
+        )
+        .addText((text) => {
+          const validate = (value: string) =>
+            text.inputEl.toggleClass(
+              "privacy-glasses-invalid",
+              !isValidSelector(value)
+            );
+          validate(entry.selector);
+          text
+            .setPlaceholder(".kanban-plugin__item")
+            .setValue(entry.selector)
+            .onChange(async (value) => {
+              entry.selector = value;
+              validate(value);
+              await onSelectorsChanged();
+            });
+        })
+        .addText((text) =>
+          text
+            .setPlaceholder("View type")
+            .setValue(entry.viewType)
+            .onChange(async (value) => {
+              entry.viewType = value;
+              await onSelectorsChanged();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete selector")
+            .onClick(async () => {
+              selectors.splice(index, 1);
+              await onSelectorsChanged(true);
+            })
+        );
+
+      new Setting(containerEl)
+        .setClass("privacy-glasses-selector-options")
+        .setDesc(
+          "Blur multiplier, reveal on hover, under the caret and in 'Reveal headlines only'"
+        )
+        .addText((text) => {
+          text.inputEl.type = "number";
+          text.inputEl.min = "0";
+          text.inputEl.max = String(MAX_MULTIPLIER);
+          text
+            .setValue(String(entry.multiplier))
+            .onChange(async (value) => {
+              const parsed = parseFloat(value);
+              text.inputEl.toggleClass(
+                "privacy-glasses-invalid",
+                !isValidMultiplier(parsed)
+              );
+              if (!isValidMultiplier(parsed)) {
+                return;
+              }
+              entry.multiplier = parsed;
+              await onSelectorsChanged();
+            });
+        })
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Reveal on hover")
+            .setValue(entry.revealOnHover)
+            .onChange(async (value) => {
+              entry.revealOnHover = value;
+              await onSelectorsChanged();
+            })
+        )
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Reveal under caret")
+            .setValue(entry.revealUnderCaret)
+            .onChange(async (value) => {
+              entry.revealUnderCaret = value;
+              await onSelectorsChanged();
+            })
+        )
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Reveal in 'Reveal headlines only'")
+            .setValue(entry.revealWithHeadlines)
+            .onChange(async (value) => {
+              entry.revealWithHeadlines = value;
+              await onSelectorsChanged();
+            })
+        );
+    });
+
+    let preset = SELECTOR_PRESETS[0].name;
+    new Setting(containerEl)
+      .addButton((button) =>
+        button.setButtonText("Add selector").onClick(async () => {
+          selectors.push(newCustomSelector());
+          await onSelectorsChanged(true);
+        })
+      )
+      .addDropdown((dropdown) => {
+        SELECTOR_PRESETS.forEach((p) => dropdown.addOption(p.name, p.name));
+        dropdown.setValue(preset).onChange((value) => {
+          preset = value;
+        });
+      })
+      .addButton((button) =>
+        button.setButtonText("Add preset").onClick(async () => {
+          const found = SELECTOR_PRESETS.find((p) => p.name === preset);
+          found?.selectors.forEach((s) => {
+            if (!selectors.some((x) => x.selector === s.selector)) {
+              selectors.push({ ...s });
+            }
+          });
+          await onSelectorsChanged(true);
+        })
+      );
+  }
+
+  displayRules(containerEl: HTMLElement) {
+    containerEl.createEl("h4", { text: "Privacy rules" });
+    containerEl.createEl("p", {
+      text: "Rules decide which files are private. They are checked from top to bottom and the last matching rule wins, so a later 'public' rule can make an exception to an earlier 'private' one. Files that match no rule are public. Path rules accept globs: * matches within a folder, ** matches across folders, and a plain folder name covers everything inside it.",
+    });
+
+    const rules = this.plugin.settings.rules;
+    const onRulesChanged = async (redisplay = false) => {
+      await this.plugin.saveSettings();
+      this.plugin.onPrivacyRulesChanged();
+      if (redisplay) {
+        this.display();
+      }
+    };
+
+    rules.forEach((rule, index) => {
+      const setting = new Setting(containerEl)
+        .setClass("privacy-glasses-rule")
+        .addToggle((toggle) =>
+          toggle
+            .setTooltip("Enabled")
+            .setValue(rule.enabled)
+            .onChange(async (value) => {
+              rule.enabled = value;
+              await onRulesChanged();
+            })
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions({
+              [RuleAction.Private]: "Private",
+              [RuleAction.Public]: "Public",
+            })
+            .setValue(rule.action)
+            .onChange(async (value) => {
+              rule.action = value as RuleAction;
+              await onRulesChanged();
+            })
+        )
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOptions(RULE_KIND_NAMES)
+            .setValue(rule.kind)
+            .onChange(async (value) => {
+              rule.kind = value as RuleKind;
+              await onRulesChanged(true);
+            })
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder(RULE_PLACEHOLDERS[rule.kind])
+            .setValue(rule.pattern)
+            .onChange(async (value) => {
+              rule.pattern = value;
+              await onRulesChanged();
+            })
+        );
+
+      if (rule.kind === RuleKind.Property) {
+        setting.addText((text) =>
+          text
+            .setPlaceholder("any value")
+            .setValue(rule.value)
+            .onChange(async (value) => {
+              rule.value = value;
+              await onRulesChanged();
+            })
+        );
+      }
+
+      setting
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              rules.splice(index - 1, 0, ...rules.splice(index, 1));
+              await onRulesChanged(true);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("arrow-down")
+            .setTooltip("Move down")
+            .setDisabled(index === rules.length - 1)
+            .onClick(async () => {
+              rules.splice(index + 1, 0, ...rules.splice(index, 1));
+              await onRulesChanged(true);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete rule")
+            .onClick(async () => {
+              rules.splice(index, 1);
+              await onRulesChanged(true);
+            })
+        );
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText("Add rule").onClick(async () => {
+        rules.push(newRule());
+        await onRulesChanged(true);
+      })
+    );
+
+    new Setting(containerEl)
+      .setName("Attachments inherit privacy")
+      .setDesc(
+        "Images, PDFs and other attachments that no rule matches take their privacy from the notes linking to them."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(ATTACHMENT_INHERITANCE_NAMES)
+          .setValue(this.plugin.settings.attachmentInheritance)
+          .onChange(async (value) => {
+            this.plugin.settings.attachmentInheritance =
+              value as AttachmentInheritance;
+            this.plugin.updateReferrers();
+            await onRulesChanged();
+          })
+      );
+
+    const settings = this.plugin.settings;
+    const isTag = settings.markStrategy === MarkStrategy.Tag;
+    const markSetting = new Setting(containerEl)
+      .setName("Make private and make public change")
+      .setDesc(
+        "What the 'Make private' and 'Make public' menu entries and commands add or remove. Folders, and files other than notes, always get a path rule."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(MARK_STRATEGY_NAMES)
+          .setValue(settings.markStrategy)
+          .onChange(async (value) => {
+            settings.markStrategy = value as MarkStrategy;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+    if (settings.markStrategy !== MarkStrategy.Path) {
+      markSetting.addText((text) =>
+        text
+          .setPlaceholder(isTag ? "#private" : "private")
+          .setValue(isTag ? settings.markTag : settings.markProperty)
+          .onChange(async (value) => {
+            if (isTag) {
+              settings.markTag = value;
+            } else {
+              settings.markProperty = value;
+            }
+            await this.plugin.saveSettings();
+          })
+      );
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { setIcon } from "obsidian";
+import { Level, LEVEL_ICONS, LEVEL_NAMES } from "./constants";
+
+export interface StatusBarState {
+  level: Level;
+  profile?: string;
+  // open panes which are hidden because their note is private
+  hiddenPrivate: number;
+  // seconds until the idle timeout hides everything, only set shortly before
+  idleCountdown?: number;
+}
+
+export class StatusBar {
+  el: HTMLElement;
+  iconEl: HTMLElement;
+  labelEl: HTMLElement;
+
+  constructor(el: HTMLElement, onClick: (evt: MouseEvent) => void) {
+    this.el = el;
+    this.el.addClasses(["mod-clickable", "privacy-glasses-status"]);
+    this.iconEl = this.el.createSpan({ cls: "privacy-glasses-status-icon" });
+    this.labelEl = this.el.createSpan({ cls: "privacy-glasses-status-label" });
+    this.el.addEventListener("click", onClick);
+  }
+
+  update(state: StatusBarState) {
+    setIcon(this.iconEl, LEVEL_ICONS[state.level]);
+
+    const parts: string[] = [];
+    if (state.profile) {
+      parts.push(state.profile);
+    }
+    if (state.hiddenPrivate > 0) {
+      parts.push(`${state.hiddenPrivate} private hidden`);
+    }
+    if (state.idleCountdown !== undefined) {
+      parts.push(`hiding in ${state.idleCountdown}s`);
+    }
+    this.labelEl.setText(parts.join(" · "));
+    this.el.toggleClass(
+      "privacy-glasses-status-countdown",
+      state.idleCountdown !== undefined
+    );
+
+    const tooltip = [`Privacy Glasses: ${LEVEL_NAMES[state.level]}`];
+    if (state.profile) {
+      tooltip.push(`Profile: ${state.profile}`);
+    }
+    tooltip.push(`${state.hiddenPrivate} open pane(s) hidden as private`);
+    this.el.setAttr("aria-label", tooltip.join("\n"));
+    this.el.setAttr("data-tooltip-position", "top");
+  }
+}
@@ -0,0 +1,148 @@
+import { findLinks } from "./links";
+import { wordRegExp } from "./render";
+import { headingLevel } from "./sections";
+
+/**
+ * Note structure
+ *
+ * 'Reveal headlines only' can keep more of a note's outline readable, so it
+ * can be navigated and presented without showing the body text. Headings,
+ * callout titles and table headers are whole elements, they are revealed by
+ * the stylesheet through classes on the body. List items, tasks and links
+ * are parts of a line: the line is revealed, and everything on it that is
+ * not part of the structure is marked to stay hidden.
+ */
+
+export interface StructureOptions {
+  // headings up to this level stay readable, 0 for none
+  headingLevel: number;
+  // bullets and this many words of each list item, -1 for none
+  listItemWords: number;
+  taskState: boolean;
+  calloutTitles: boolean;
+  tableHeaders: boolean;
+  linkTargets: boolean;
+}
+
+// only headings, the way 'Reveal headlines only' has always worked
+export const DEFAULT_STRUCTURE_OPTIONS: StructureOptions = {
+  headingLevel: 6,
+  listItemWords: -1,
+  taskState: false,
+  calloutTitles: false,
+  tableHeaders: false,
+  linkTargets: false,
+};
+
+const HEADING_CLASS_PREFIX = "privacy-glasses-structure-h";
+const CALLOUTS_CLASS = "privacy-glasses-structure-callouts";
+const TABLES_CLASS = "privacy-glasses-structure-tables";
+
+export const STRUCTURE_BODY_CLASSES = [
+  ...[0, 1, 2, 3, 4, 5].map((n) => HEADING_CLASS_PREFIX + n),
+  CALLOUTS_CLASS,
+  TABLES_CLASS,
+];
+
+export function structureBodyClasses(options: StructureOptions): string[] {
+  const classes: string[] = [];
+  if (options.headingLevel < 6) {
+    classes.push(HEADING_CLASS_PREFIX + Math.max(0, options.headingLevel));
+  }
+  if (options.calloutTitles) {
+    classes.push(CALLOUTS_CLASS);
+  }
+  if (options.tableHeaders) {
+    classes.push(TABLES_CLASS);
+  }
+  return classes;
+}
+
+const LIST_ITEM_RE = /^(\s*(?:[-*+]|\d+[.)])\s+)(\[.\]\s+)?/;
+const CALLOUT_TITLE_RE = /^\s*>\s*\[!/;
+const TABLE_ROW_RE = /^\s*\|/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{3,}/;
+
+// the end of the words'th word after from, or undefined when there are fewer
+export function endOfWords(text: string, from: number, words: number) {
+  const re = wordRegExp();
+  re.lastIndex = from;
+  let end: number | undefined;
+  for (let i = 0; i < words; i++) {
+    const m = re.exec(text);
+    if (!m) {
+      return undefined;
+    }
+    end = m.index + m[0].length;
+  }
+  return end;
+}
+
+function gaps(ranges: [number, number][], length: number): [number, number][] {
+  const result: [number, number][] = [];
+  let pos = 0;
+  ranges
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([from, to]) => {
+      if (from > pos) {
+        result.push([pos, from]);
+      }
+      pos = Math.max(pos, to);
+    });
+  if (pos < length) {
+    result.push([pos, length]);
+  }
+  return result;
+}
+
+// returns the ranges of a source line which stay hidden, or undefined when
+// the line has no structure and is hidden as a whole. heading lines are left
+// to the stylesheet, links to private notes stay hidden
+export function hiddenStructureRanges(
+  line: string,
+  nextLine: string | undefined,
+  options: StructureOptions,
+  isPrivateLink: (link: string) => boolean = () => false
+): [number, number][] | undefined {
+  if (headingLevel(line) > 0) {
+    return undefined;
+  }
+  if (options.calloutTitles && CALLOUT_TITLE_RE.test(line)) {
+    return [];
+  }
+  if (
+    options.tableHeaders &&
+    TABLE_ROW_RE.test(line) &&
+    !TABLE_SEPARATOR_RE.test(line) &&
+    nextLine !== undefined &&
+    TABLE_SEPARATOR_RE.test(nextLine)
+  ) {
+    return [];
+  }
+  const revealed: [number, number][] = [];
+  const item = LIST_ITEM_RE.exec(line);
+  if (item) {
+    const marker = item[1];
+    const checkbox = item[2];
+    if (options.listItemWords >= 0) {
+      revealed.push([0, marker.length]);
+    }
+    if (checkbox && options.taskState) {
+      revealed.push([marker.length, item[0].length]);
+    }
+    if (options.listItemWords > 0) {
+      const end =
+        endOfWords(line, item[0].length, options.listItemWords) ?? line.length;
+      revealed.push([item[0].length, end]);
+    }
+  }
+  if (options.linkTargets) {
+    findLinks(line)
+      .filter((l) => !isPrivateLink(l.link))
+      .forEach((l) => revealed.push([l.from, l.to]));
+  }
+  if (revealed.length === 0) {
+    return undefined;
+  }
+  return gaps(revealed, line.length);
+}
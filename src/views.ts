@@ -0,0 +1,39 @@
+import { FileView, TFile, View } from "obsidian";
+import type { AllCanvasNodeData } from "obsidian/canvas";
+import { CssClass } from "./constants";
+
+/**
+ * Views
+ *
+ * Markdown views are hidden line by line. Canvases and PDFs are hidden node
+ * by node and page by page, so hovering reveals one part at a time, and a
+ * public canvas can still hide the nodes that show private notes. Every
+ * other view is hidden as a whole.
+ */
+
+export const CANVAS_VIEW_TYPE = "canvas";
+export const PDF_VIEW_TYPE = "pdf";
+
+// the file shown by a markdown view or by a view of an attachment such as an
+// image or a pdf
+export function fileOfView(view: View): TFile | undefined {
+  const file = view instanceof FileView ? view.file : (view as any).file;
+  return file instanceof TFile ? file : undefined;
+}
+
+interface CanvasNode {
+  nodeEl: HTMLElement;
+  getData(): AllCanvasNodeData;
+}
+
+// the canvas has no public api, its nodes are read from the view
+export function tagCanvasNodes(
+  view: View,
+  isPrivateNode: (node: AllCanvasNodeData) => boolean
+) {
+  const nodes: Map<string, CanvasNode> | undefined = (view as any).canvas
+    ?.nodes;
+  nodes?.forEach((node) => {
+    node.nodeEl?.toggleClass(CssClass.PrivateNode, isPrivateNode(node.getData()));
+  });
+}
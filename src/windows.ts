@@ -0,0 +1,56 @@
+import { Level } from "./constants";
+import { PrivateNameObserver } from "./names";
+import { addRenderFilters, RenderMode } from "./render";
+
+/**
+ * Windows
+ *
+ * Every window has its own document, so each one needs its own copy of the
+ * style elements, the render filters and the body classes. Pop-out windows
+ * can also keep a level of their own, e.g. a window shared on a projector
+ * stays hidden while the main window is revealed.
+ */
+
+export interface WindowState {
+  win: Window;
+  blurLevelStyleEl: HTMLStyleElement;
+  privateDirsStyleEl: HTMLStyleElement;
+  customSelectorsStyleEl: HTMLStyleElement;
+  filtersEl: Element;
+  names: PrivateNameObserver;
+  // undefined while the window follows the main window's level
+  level?: Level;
+  // the render mode its words were last prepared for
+  renderMode?: RenderMode;
+}
+
+function addStyleEl(doc: Document, id: string) {
+  const el = doc.createElement("style");
+  el.id = id;
+  doc.head.appendChild(el);
+  return el;
+}
+
+export function createWindowState(
+  win: Window,
+  isPrivateName: (name: string) => boolean,
+  isRevealed: (win: Window) => boolean
+): WindowState {
+  const doc = win.document;
+  return {
+    win,
+    blurLevelStyleEl: addStyleEl(doc, "privacyGlassesBlurLevel"),
+    privateDirsStyleEl: addStyleEl(doc, "privacyGlassesDirBlur"),
+    customSelectorsStyleEl: addStyleEl(doc, "privacyGlassesCustomSelectors"),
+    filtersEl: addRenderFilters(doc),
+    names: new PrivateNameObserver(doc, isPrivateName, () => isRevealed(win)),
+  };
+}
+
+export function removeWindowState(state: WindowState) {
+  state.blurLevelStyleEl.remove();
+  state.privateDirsStyleEl.remove();
+  state.customSelectorsStyleEl.remove();
+  state.filtersEl.remove();
+  state.names.disconnect();
+}